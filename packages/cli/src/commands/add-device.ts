@@ -6,9 +6,18 @@ import inquirer from "inquirer";
 
 export const addDeviceCommand = new Command("add-device")
   .description("Generate auth token for a new device")
-  .action(async () => {
+  .option("--read-only", "Token can download but not upload, delete or rename")
+  .option("--prefix <folders...>", "Limit the token to these folders (e.g. Shared/)")
+  .action(async (options: { readOnly?: boolean; prefix?: string[] }) => {
     console.log(chalk.bold("\n🔑 Add Device\n"));
 
+    const prefixes = (options.prefix ?? []).map(normalizePrefix);
+    const invalid = prefixes.find((prefix) => prefix === "/" || prefix.includes(".."));
+    if (invalid !== undefined) {
+      console.error(chalk.red(`Error: "${invalid}" is not a folder inside the vault.`));
+      process.exit(1);
+    }
+
     const { secret } = await inquirer.prompt([
       {
         type: "password",
@@ -20,10 +29,33 @@ export const addDeviceCommand = new Command("add-device")
     ]);
 
     const deviceId = await promptDeviceId();
-    const token = await CloudflareClient.generateToken(secret, deviceId);
+    const token = await CloudflareClient.generateToken(secret, scopedClaim(deviceId, Boolean(options.readOnly), prefixes));
 
     console.log(chalk.bold("\n✅ Device token generated!\n"));
     console.log(`  ${chalk.cyan("Device ID:")} ${deviceId}`);
+    console.log(`  ${chalk.cyan("Access:")}    ${describeScope(Boolean(options.readOnly), prefixes)}`);
     console.log(`  ${chalk.cyan("Token:")}     ${token}\n`);
-    console.log(chalk.dim("Add this token to the Obsidian plugin settings on the new device.\n"));
+    console.log(chalk.dim("Add this token to the Obsidian plugin settings on the new device."));
+    console.log(chalk.dim(`If "${deviceId}" was revoked before, run unrevoke-device ${deviceId} so it can sync.\n`));
   });
+
+/** Folder prefixes end in "/" and are relative to the vault root */
+function normalizePrefix(folder: string): string {
+  const trimmed = folder.replace(/^\/+/, "");
+  return trimmed.endsWith("/") ? trimmed : `${trimmed}/`;
+}
+
+/**
+ * The part of a token the HMAC covers: the device ID, followed by the
+ * token's scope for a limited token, e.g. "device-kiosk#access=read&prefix=Shared%2F".
+ */
+function scopedClaim(deviceId: string, readOnly: boolean, prefixes: string[]): string {
+  const params = prefixes.map((prefix) => `prefix=${encodeURIComponent(prefix)}`);
+  if (readOnly) params.unshift("access=read");
+  return params.length > 0 ? `${deviceId}#${params.join("&")}` : deviceId;
+}
+
+function describeScope(readOnly: boolean, prefixes: string[]): string {
+  const access = readOnly ? "read-only" : "read/write";
+  return prefixes.length > 0 ? `${access}, limited to ${prefixes.join(", ")}` : `${access}, whole vault`;
+}
@@ -15,7 +15,8 @@ export const rotateSecretCommand = new Command("rotate-secret")
     console.log(
       chalk.red(
         "⚠️  This will invalidate ALL existing device tokens.\n" +
-          "   After rotating, run `add-device` for each device to issue new tokens.\n",
+          "   After rotating, run `add-device` for each device to issue new tokens.\n" +
+          "   To lock out a single device, use `revoke-device` instead.\n",
       ),
     );
 
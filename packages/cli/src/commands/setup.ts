@@ -62,14 +62,14 @@ export const setupCommand = new Command("setup")
       r2SecretAccessKey = r2Creds.secretAccessKey;
       r2TokenSpinner.succeed("R2 API token created");
     } catch (error) {
-      r2TokenSpinner.fail("Failed to create R2 API token (presigned URLs won't work until this is configured)");
+      r2TokenSpinner.fail("Failed to create R2 API token (files will be transferred through the Worker until this is configured)");
       console.error(chalk.red(`  ${(error as Error).message}`));
       console.error(chalk.dim("  Ensure your API token has 'Account / Account API Tokens: Edit' permission."));
       console.error(chalk.dim("  Or create an R2 API token manually:"));
       console.error(chalk.dim("    1. Go to https://dash.cloudflare.com → R2 → Manage R2 API Tokens"));
       console.error(chalk.dim("    2. Create a token with 'Object Read & Write' for your bucket"));
       console.error(chalk.dim("    3. Run 'pnpm cli deploy' with the R2 credentials to update the Worker"));
-      // Don't exit — Worker can still be deployed, presigned URLs just won't work
+      // Don't exit — without presigned URLs, the plugin transfers through the Worker's object routes
     }
 
     // Step 5: Generate auth secret
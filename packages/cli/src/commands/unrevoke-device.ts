@@ -0,0 +1,57 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import inquirer from "inquirer";
+import { CloudflareClient } from "../lib/cloudflare.js";
+import { loadConfig } from "../lib/config.js";
+
+export const unrevokeDeviceCommand = new Command("unrevoke-device")
+  .description("Let a revoked device sync again")
+  .argument("<device-id>", "ID of the device to let back in")
+  .option("--endpoint <url>", "Worker endpoint URL")
+  .action(async (deviceId: string, options) => {
+    console.log(chalk.bold("\n🔓 Unrevoke Device\n"));
+
+    const config = loadConfig();
+    const endpoint = options.endpoint || config.workerUrl;
+    if (!endpoint) {
+      console.error(chalk.red("Error: No endpoint specified."));
+      console.error(chalk.dim("  Provide --endpoint <url> or run setup first."));
+      process.exit(1);
+    }
+
+    const secret: string = config.authSecret || (
+      await inquirer.prompt([
+        {
+          type: "password",
+          name: "secret",
+          message: "Enter the auth secret (from setup):",
+          mask: "*",
+          validate: (input: string) => input.length > 0 || "Auth secret is required",
+        },
+      ])
+    ).secret;
+
+    const spinner = ora(`Unrevoking "${deviceId}"...`).start();
+    try {
+      const response = await fetch(`${endpoint}/admin/unrevoke`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${await CloudflareClient.generateAdminToken(secret)}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ deviceId }),
+      });
+      const data = (await response.json()) as { error?: string; revoked?: string[] };
+      if (!response.ok) {
+        throw new Error(data.error ?? `Worker returned ${response.status}`);
+      }
+
+      spinner.succeed(`Device "${deviceId}" can sync again`);
+      console.log(`  ${chalk.cyan("Revoked devices:")} ${data.revoked?.join(", ") || "none"}\n`);
+    } catch (error) {
+      spinner.fail("Failed to unrevoke device");
+      console.error(chalk.red(`  ${error instanceof Error ? error.message : "Unknown error"}`));
+      process.exit(1);
+    }
+  });
@@ -9,6 +9,8 @@ import { addDeviceCommand } from "./commands/add-device.js";
 import { statusCommand } from "./commands/status.js";
 import { teardownCommand } from "./commands/teardown.js";
 import { rotateSecretCommand } from "./commands/rotate-secret.js";
+import { revokeDeviceCommand } from "./commands/revoke-device.js";
+import { unrevokeDeviceCommand } from "./commands/unrevoke-device.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const { version: PACKAGE_VERSION } = JSON.parse(
@@ -28,5 +30,7 @@ program.addCommand(addDeviceCommand);
 program.addCommand(statusCommand);
 program.addCommand(teardownCommand);
 program.addCommand(rotateSecretCommand);
+program.addCommand(revokeDeviceCommand);
+program.addCommand(unrevokeDeviceCommand);
 
 program.parse();
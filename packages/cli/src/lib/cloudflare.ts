@@ -280,10 +280,20 @@ export class CloudflareClient {
     });
   }
 
+  /**
+   * Generate a short-lived token for the Worker's admin routes.
+   * Signed like a device token, over "admin:<unixSeconds>".
+   */
+  static async generateAdminToken(authSecret: string): Promise<string> {
+    return CloudflareClient.generateToken(authSecret, `admin:${Math.floor(Date.now() / 1000)}`);
+  }
+
   /**
    * Generate an HMAC-based auth token for a device.
+   *
+   * @param claim - Device ID, optionally followed by the token's scope ("<deviceId>#<scope>")
    */
-  static async generateToken(authSecret: string, deviceId: string): Promise<string> {
+  static async generateToken(authSecret: string, claim: string): Promise<string> {
     const encoder = new TextEncoder();
     const key = await crypto.subtle.importKey(
       "raw",
@@ -292,10 +302,10 @@ export class CloudflareClient {
       false,
       ["sign"],
     );
-    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(deviceId));
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(claim));
     const hmacHex = Array.from(new Uint8Array(signature))
       .map((b) => b.toString(16).padStart(2, "0"))
       .join("");
-    return `${deviceId}:${hmacHex}`;
+    return `${claim}:${hmacHex}`;
   }
 }
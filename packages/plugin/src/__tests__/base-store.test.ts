@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { DataAdapter } from "obsidian";
+import { BaseStore } from "../sync/base-store.js";
+
+/**
+ * Minimal in-memory stand-in for Obsidian's DataAdapter.
+ */
+function createAdapter(files = new Map<string, string>()): DataAdapter {
+  const dirs = new Set<string>();
+  return {
+    exists: async (path: string) =>
+      dirs.has(path) || files.has(path) || [...files.keys()].some((p) => p.startsWith(`${path}/`)),
+    mkdir: async (path: string) => {
+      dirs.add(path);
+    },
+    read: async (path: string) => {
+      const content = files.get(path);
+      if (content === undefined) throw new Error(`ENOENT: ${path}`);
+      return content;
+    },
+    write: async (path: string, content: string) => {
+      files.set(path, content);
+    },
+    remove: async (path: string) => {
+      files.delete(path);
+    },
+    list: async (dir: string) => ({
+      files: [...files.keys()].filter((p) => p.startsWith(`${dir}/`)),
+      folders: [],
+    }),
+    stat: async (path: string) => {
+      const content = files.get(path);
+      return content === undefined ? null : { type: "file", ctime: 0, mtime: 0, size: content.length };
+    },
+  } as unknown as DataAdapter;
+}
+
+describe("BaseStore", () => {
+  let files: Map<string, string>;
+  let store: BaseStore;
+
+  beforeEach(() => {
+    files = new Map();
+    store = new BaseStore(createAdapter(files), "plugin/base", { maxFileSize: 100, maxTotalSize: 150 });
+  });
+
+  it("stores and retrieves content by hash", async () => {
+    expect(await store.put("h1", "hello")).toBe(true);
+    expect(await store.get("h1")).toBe("hello");
+    expect(await store.has("h1")).toBe(true);
+    expect(files.get("plugin/base/h1")).toBe("hello");
+  });
+
+  it("returns null for unknown hashes", async () => {
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  it("skips content larger than the per-file limit", async () => {
+    expect(await store.put("big", "x".repeat(101))).toBe(false);
+    expect(await store.has("big")).toBe(false);
+  });
+
+  it("skips content once the total budget is used up", async () => {
+    expect(await store.put("a", "x".repeat(100))).toBe(true);
+    expect(await store.put("b", "x".repeat(60))).toBe(false);
+    expect(await store.put("c", "x".repeat(50))).toBe(true);
+  });
+
+  it("prunes hashes that are no longer referenced", async () => {
+    await store.put("keep", "k");
+    await store.put("drop", "d");
+
+    await store.prune(new Set(["keep"]));
+    expect(await store.get("keep")).toBe("k");
+    expect(await store.get("drop")).toBeNull();
+    expect(files.has("plugin/base/drop")).toBe(false);
+  });
+
+  it("picks up contents written by a previous session", async () => {
+    files.set("plugin/base/old", "from before");
+    const reopened = new BaseStore(createAdapter(files), "plugin/base");
+    expect(await reopened.get("old")).toBe("from before");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ChangeTracker } from "../sync/change-tracker.js";
+
+describe("ChangeTracker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("flushes changed paths after the debounce period", async () => {
+    const onFlush = vi.fn();
+    const tracker = new ChangeTracker(onFlush, 1000, 10000);
+
+    tracker.add("a.md");
+    await vi.advanceTimersByTimeAsync(999);
+    expect(onFlush).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onFlush).toHaveBeenCalledWith(["a.md"]);
+  });
+
+  it("batches and de-duplicates paths within the debounce window", async () => {
+    const onFlush = vi.fn();
+    const tracker = new ChangeTracker(onFlush, 1000, 10000);
+
+    tracker.add("a.md");
+    await vi.advanceTimersByTimeAsync(500);
+    tracker.add("b.md", "a.md");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush.mock.calls[0]![0]).toEqual(["a.md", "b.md"]);
+  });
+
+  it("flushes by the max wait even while changes keep arriving", async () => {
+    const onFlush = vi.fn();
+    const tracker = new ChangeTracker(onFlush, 1000, 3000);
+
+    for (let i = 0; i < 5; i++) {
+      tracker.add("typing.md");
+      await vi.advanceTimersByTimeAsync(800);
+    }
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith(["typing.md"]);
+  });
+
+  it("flush() hands off pending paths immediately", () => {
+    const onFlush = vi.fn();
+    const tracker = new ChangeTracker(onFlush, 1000, 10000);
+
+    tracker.add("a.md");
+    tracker.flush();
+    expect(onFlush).toHaveBeenCalledWith(["a.md"]);
+    expect(tracker.pendingCount).toBe(0);
+  });
+
+  it("cancel() drops pending paths", async () => {
+    const onFlush = vi.fn();
+    const tracker = new ChangeTracker(onFlush, 1000, 10000);
+
+    tracker.add("a.md");
+    tracker.cancel();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
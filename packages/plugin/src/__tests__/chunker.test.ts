@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { decodeChunkList, encodeChunkList, findChunkBoundaries, readChunks } from "../sync/chunker.js";
+
+const PARAMS = { minSize: 64, avgSize: 256, maxSize: 1024 };
+
+/** Deterministic pseudo-random bytes */
+function randomBytes(length: number, seed = 1): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    bytes[i] = state >>> 24;
+  }
+  return bytes;
+}
+
+function chunksOf(data: Uint8Array): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  for (const end of findChunkBoundaries(data, PARAMS)) {
+    chunks.push(Array.from(data.subarray(start, end)).join(","));
+    start = end;
+  }
+  return chunks;
+}
+
+describe("findChunkBoundaries", () => {
+  it("covers the data with chunks within the size bounds", () => {
+    const data = randomBytes(20000);
+    const ends = findChunkBoundaries(data, PARAMS);
+
+    expect(ends[ends.length - 1]).toBe(data.length);
+    let start = 0;
+    for (const [i, end] of ends.entries()) {
+      const size = end - start;
+      expect(size).toBeLessThanOrEqual(PARAMS.maxSize);
+      if (i < ends.length - 1) expect(size).toBeGreaterThan(PARAMS.minSize);
+      start = end;
+    }
+  });
+
+  it("returns a single chunk for small data", () => {
+    expect(findChunkBoundaries(randomBytes(50), PARAMS)).toEqual([50]);
+    expect(findChunkBoundaries(new Uint8Array(0), PARAMS)).toEqual([]);
+  });
+
+  it("keeps most chunks when bytes are inserted at the start", () => {
+    const original = randomBytes(20000);
+    const edited = new Uint8Array(original.length + 10);
+    edited.set(randomBytes(10, 99), 0);
+    edited.set(original, 10);
+
+    const before = new Set(chunksOf(original));
+    const after = chunksOf(edited);
+    const shared = after.filter((chunk) => before.has(chunk)).length;
+
+    expect(shared).toBeGreaterThanOrEqual(after.length - 2);
+  });
+});
+
+describe("readChunks", () => {
+  it("cuts the same chunks as chunking the whole data, reading a window at a time", async () => {
+    const data = randomBytes(20000);
+    const reads: number[] = [];
+    const read = async (start: number, end: number) => {
+      reads.push(end - start);
+      return data.slice(start, end).buffer;
+    };
+
+    const chunks: string[] = [];
+    for await (const chunk of readChunks(read, data.length, 1500, PARAMS)) {
+      chunks.push(Array.from(chunk).join(","));
+    }
+
+    expect(chunks).toEqual(chunksOf(data));
+    expect(Math.max(...reads)).toBeLessThanOrEqual(1500);
+  });
+
+  it("reads nothing for an empty file", async () => {
+    const chunks = readChunks(async () => {
+      throw new Error("read");
+    }, 0, 1500, PARAMS);
+    expect((await chunks.next()).done).toBe(true);
+  });
+});
+
+describe("chunk lists", () => {
+  it("round-trips a chunk list", () => {
+    const chunks = [{ hash: "a", size: 1 }, { hash: "b", size: 2 }];
+    const encoded = encodeChunkList(chunks);
+    expect(decodeChunkList(encoded.buffer as ArrayBuffer)).toEqual(chunks);
+  });
+
+  it("treats ordinary content as not a chunk list", () => {
+    const content = new TextEncoder().encode("# Just a note");
+    expect(decodeChunkList(content.buffer as ArrayBuffer)).toBeNull();
+  });
+});
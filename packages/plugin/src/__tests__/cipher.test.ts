@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import type { SyncManifest } from "@obsidian-r2-sync/shared";
+import { EncryptionError, VaultCipher } from "../sync/cipher.js";
+
+// Low iteration count keeps key derivation fast in tests
+const ITERATIONS = 1000;
+
+describe("VaultCipher", () => {
+  let cipher: VaultCipher;
+
+  beforeAll(async () => {
+    cipher = await VaultCipher.create("correct horse", ITERATIONS);
+  });
+
+  it("round-trips file content with a fresh IV each time", async () => {
+    const plaintext = new TextEncoder().encode("# Secret note").buffer as ArrayBuffer;
+
+    const first = await cipher.encrypt(plaintext);
+    const second = await cipher.encrypt(plaintext);
+    expect(new Uint8Array(first)).not.toEqual(new Uint8Array(second));
+
+    const decrypted = await cipher.decrypt(first);
+    expect(new TextDecoder().decode(decrypted)).toBe("# Secret note");
+  });
+
+  it("rejects tampered content", async () => {
+    const encrypted = new Uint8Array(await cipher.encrypt(new Uint8Array([1, 2, 3]).buffer as ArrayBuffer));
+    encrypted[encrypted.length - 1]! ^= 1;
+    await expect(cipher.decrypt(encrypted.buffer as ArrayBuffer)).rejects.toThrow(EncryptionError);
+  });
+
+  it("decrypts content uploaded as separately encrypted parts", async () => {
+    const plaintext = new TextEncoder().encode("first part, second part, end");
+    const encrypted = [];
+    for (let start = 0; start < plaintext.length; start += 12) {
+      encrypted.push(new Uint8Array(await cipher.encrypt(plaintext.slice(start, start + 12).buffer as ArrayBuffer)));
+    }
+    const joined = new Uint8Array(encrypted.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of encrypted) {
+      joined.set(part, offset);
+      offset += part.length;
+    }
+
+    const decrypted = await cipher.decryptParts(joined.buffer as ArrayBuffer, 12);
+    expect(new TextDecoder().decode(decrypted)).toBe("first part, second part, end");
+  });
+
+  it("encrypts names deterministically into path-safe tokens", async () => {
+    const token = await cipher.encryptName("notes/daily/2024-01-01.md");
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await cipher.encryptName("notes/daily/2024-01-01.md")).toBe(token);
+    expect(await cipher.encryptName("notes/daily/2024-01-02.md")).not.toBe(token);
+  });
+
+  it("decrypts names with a freshly unlocked key", async () => {
+    const token = await cipher.encryptName("notes/a.md");
+
+    const other = await VaultCipher.unlock("correct horse", cipher.params);
+    expect(await other.decryptName(token)).toBe("notes/a.md");
+  });
+
+  it("refuses to unlock with the wrong passphrase", async () => {
+    await expect(VaultCipher.unlock("wrong horse", cipher.params)).rejects.toThrow(/Wrong encryption passphrase/);
+  });
+
+  it("encrypts manifest paths and hashes and records the parameters", async () => {
+    const manifest: SyncManifest = {
+      files: {
+        "notes/a.md": { path: "notes/a.md", hash: "abc", mtime: 1, size: 2, lastModifiedBy: "device-a" },
+        "big.pdf": {
+          path: "big.pdf",
+          hash: "def",
+          mtime: 1,
+          size: 2,
+          lastModifiedBy: "device-a",
+          chunks: [{ hash: "chunk-hash-1", size: 2 }],
+        },
+      },
+      tombstones: {
+        "old/gone.md": { path: "old/gone.md", hash: "ghi", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-b" },
+      },
+      lastUpdated: "2024-01-01T00:00:00.000Z",
+      lastUpdatedBy: "device-a",
+    };
+
+    const encrypted = await cipher.encryptManifest(manifest);
+    expect(encrypted.encryption).toEqual(cipher.params);
+    expect(JSON.stringify(encrypted.files)).not.toContain("notes/a.md");
+    expect(JSON.stringify(encrypted.files)).not.toContain("abc");
+    expect(JSON.stringify(encrypted.files)).not.toContain("chunk-hash-1");
+    expect(JSON.stringify(encrypted.tombstones)).not.toContain("old/gone.md");
+
+    const decrypted = await cipher.decryptManifest(encrypted);
+    expect(decrypted.files).toEqual(manifest.files);
+    expect(decrypted.tombstones).toEqual(manifest.tombstones);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { compress, decompress, isCompressible } from "../sync/compression.js";
+
+describe("isCompressible", () => {
+  it("accepts text formats and rejects already-compressed ones", () => {
+    expect(isCompressible("notes/a.md")).toBe(true);
+    expect(isCompressible("boards/plan.canvas")).toBe(true);
+    expect(isCompressible("data/Config.JSON")).toBe(true);
+    expect(isCompressible("images/photo.png")).toBe(false);
+    expect(isCompressible("docs/paper.pdf")).toBe(false);
+    expect(isCompressible("Makefile")).toBe(false);
+  });
+});
+
+describe("compress / decompress", () => {
+  it("round-trips content and shrinks repetitive text", async () => {
+    const text = "# Daily note\n\n- [ ] task\n".repeat(200);
+    const original = new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+    const compressed = await compress(original);
+    expect(compressed.byteLength).toBeLessThan(original.byteLength / 5);
+
+    const restored = await decompress(compressed);
+    expect(new TextDecoder().decode(restored)).toBe(text);
+  });
+});
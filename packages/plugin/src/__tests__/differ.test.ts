@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import type { DiffResult, FileEntry, SyncManifest } from "@obsidian-r2-sync/shared";
+import {
+  assignRevisions,
+  changedBetween,
+  describeConflict,
+  diffPaths,
+  exceedsDeleteThreshold,
+  filterDiff,
+  isDiffEmpty,
+  pullOnly,
+  restrictManifest,
+  updateBaseForPaths,
+} from "../sync/differ.js";
+
+function entry(path: string, hash: string): FileEntry {
+  return { path, hash, mtime: 1000, size: 100, lastModifiedBy: "device-a" };
+}
+
+function manifest(files: Record<string, FileEntry>): SyncManifest {
+  return { files, lastUpdated: "2024-01-01T00:00:00.000Z", lastUpdatedBy: "device-a" };
+}
+
+describe("restrictManifest", () => {
+  it("keeps only the requested paths", () => {
+    const m = manifest({ "a.md": entry("a.md", "a"), "b.md": entry("b.md", "b") });
+    const result = restrictManifest(m, new Set(["a.md", "missing.md"]));
+
+    expect(Object.keys(result.files)).toEqual(["a.md"]);
+    expect(result.lastUpdatedBy).toBe("device-a");
+  });
+
+  it("keeps only the tombstones of the requested paths", () => {
+    const tombstone = (path: string) => ({ path, hash: "h", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-a" });
+    const m = { ...manifest({}), tombstones: { "a.md": tombstone("a.md"), "b.md": tombstone("b.md") } };
+
+    expect(Object.keys(restrictManifest(m, new Set(["a.md"])).tombstones ?? {})).toEqual(["a.md"]);
+  });
+});
+
+describe("changedBetween", () => {
+  it("lists paths added, removed or changed", () => {
+    const before = manifest({ "same.md": entry("same.md", "s"), "edited.md": entry("edited.md", "1"), "gone.md": entry("gone.md", "g") });
+    const after = manifest({ "same.md": entry("same.md", "s"), "edited.md": entry("edited.md", "2"), "new.md": entry("new.md", "n") });
+
+    expect([...changedBetween(before, after)].sort()).toEqual(["edited.md", "gone.md", "new.md"]);
+  });
+});
+
+describe("updateBaseForPaths", () => {
+  it("advances only the synced paths", () => {
+    const base = manifest({
+      "synced.md": entry("synced.md", "old"),
+      "untouched.md": entry("untouched.md", "base"),
+      "deleted.md": entry("deleted.md", "d"),
+    });
+    const synced = manifest({
+      "synced.md": entry("synced.md", "new"),
+      "untouched.md": entry("untouched.md", "remote-changed"),
+      "created.md": entry("created.md", "c"),
+    });
+
+    const result = updateBaseForPaths(base, synced, new Set(["synced.md", "deleted.md", "created.md"]));
+
+    expect(result.files["synced.md"]!.hash).toBe("new");
+    expect(result.files["created.md"]!.hash).toBe("c");
+    expect(result.files["deleted.md"]).toBeUndefined();
+    // Not part of this cycle — keeps its old base so the remote change is still seen later
+    expect(result.files["untouched.md"]!.hash).toBe("base");
+  });
+});
+
+describe("filterDiff / diffPaths", () => {
+  const diff: DiffResult = {
+    toUpload: [entry("up.md", "u")],
+    toDownload: [entry("down.md", "d")],
+    toDeleteRemote: ["del-remote.md"],
+    toDeleteLocal: ["del-local.md"],
+    conflicts: [
+      { path: "conflict.md", local: entry("conflict.md", "l"), remote: entry("conflict.md", "r"), reason: "both-modified" },
+    ],
+    toRename: [{ from: "old.md", to: "new.md", entry: entry("new.md", "n"), target: "remote" }],
+  };
+
+  it("collects every path a diff touches", () => {
+    expect([...diffPaths(diff)].sort()).toEqual([
+      "conflict.md",
+      "del-local.md",
+      "del-remote.md",
+      "down.md",
+      "new.md",
+      "old.md",
+      "up.md",
+    ]);
+  });
+
+  it("keeps only selected paths", () => {
+    const result = filterDiff(diff, new Set(["up.md", "del-local.md", "new.md"]));
+
+    expect(result.toUpload).toHaveLength(1);
+    expect(result.toDownload).toHaveLength(0);
+    expect(result.toDeleteRemote).toHaveLength(0);
+    expect(result.toDeleteLocal).toEqual(["del-local.md"]);
+    expect(result.conflicts).toHaveLength(0);
+    expect(result.toRename).toHaveLength(1);
+    expect(isDiffEmpty(result)).toBe(false);
+  });
+
+  it("is empty when nothing is selected", () => {
+    expect(isDiffEmpty(filterDiff(diff, new Set()))).toBe(true);
+  });
+
+  it("keeps only the remote changes for a read-only device", () => {
+    const pulled = pullOnly({
+      ...diff,
+      toRename: [...diff.toRename, { from: "a.md", to: "b.md", entry: entry("b.md", "b"), target: "local" }],
+    });
+
+    expect([...diffPaths(pulled)].sort()).toEqual(["a.md", "b.md", "del-local.md", "down.md"]);
+  });
+});
+
+describe("exceedsDeleteThreshold", () => {
+  function deletions(local: number, remote: number): DiffResult {
+    return {
+      toUpload: [],
+      toDownload: [],
+      toDeleteRemote: Array.from({ length: remote }, (_, i) => `r${i}.md`),
+      toDeleteLocal: Array.from({ length: local }, (_, i) => `l${i}.md`),
+      conflicts: [],
+      toRename: [],
+    };
+  }
+
+  it("trips on the combined count of local and remote deletions", () => {
+    expect(exceedsDeleteThreshold(deletions(3, 2), 1000, { count: 5, percent: 0 })).toBe(false);
+    expect(exceedsDeleteThreshold(deletions(3, 3), 1000, { count: 5, percent: 0 })).toBe(true);
+  });
+
+  it("trips on the share of the vault", () => {
+    expect(exceedsDeleteThreshold(deletions(0, 10), 100, { count: 0, percent: 10 })).toBe(false);
+    expect(exceedsDeleteThreshold(deletions(0, 11), 100, { count: 0, percent: 10 })).toBe(true);
+  });
+
+  it("never trips without deletions or with both thresholds disabled", () => {
+    expect(exceedsDeleteThreshold(deletions(0, 0), 0, { count: 1, percent: 1 })).toBe(false);
+    expect(exceedsDeleteThreshold(deletions(500, 500), 1000, { count: 0, percent: 0 })).toBe(false);
+  });
+});
+
+describe("assignRevisions", () => {
+  it("bumps written entries and keeps the remote revision for unchanged ones", () => {
+    const remote = manifest({
+      "edited.md": { ...entry("edited.md", "old"), rev: 3 },
+      "downloaded.md": { ...entry("downloaded.md", "d"), rev: 9 },
+    });
+    const updated = manifest({
+      "edited.md": entry("edited.md", "new"),
+      "downloaded.md": { ...entry("downloaded.md", "d"), rev: 9 },
+      "created.md": entry("created.md", "c"),
+    });
+
+    assignRevisions(updated, remote, null);
+
+    expect(updated.files["edited.md"]!.rev).toBe(4);
+    expect(updated.files["downloaded.md"]!.rev).toBe(9);
+    expect(updated.files["created.md"]!.rev).toBe(1);
+    // Entries shared with the remote manifest are not mutated
+    expect(remote.files["edited.md"]!.rev).toBe(3);
+  });
+});
+
+describe("describeConflict", () => {
+  it("names the other device and the revisions involved", () => {
+    const text = describeConflict({
+      path: "a.md",
+      local: entry("a.md", "l"),
+      remote: { ...entry("a.md", "r"), lastModifiedBy: "laptop", rev: 7 },
+      baseRev: 5,
+      reason: "both-modified",
+    });
+
+    expect(text).toContain("laptop");
+    expect(text).toContain("revision 5");
+    expect(text).toContain("7");
+  });
+});
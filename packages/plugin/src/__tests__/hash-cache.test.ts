@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { HashCache } from "../sync/hash-cache.js";
+
+describe("HashCache", () => {
+  it("returns the cached hash when mtime and size match", () => {
+    const cache = new HashCache(null, "1.0.0");
+    cache.set("a.md", 1000, 10, "hash-a");
+    expect(cache.get("a.md", 1000, 10)).toBe("hash-a");
+  });
+
+  it("misses when mtime or size changed", () => {
+    const cache = new HashCache(null, "1.0.0");
+    cache.set("a.md", 1000, 10, "hash-a");
+    expect(cache.get("a.md", 2000, 10)).toBeNull();
+    expect(cache.get("a.md", 1000, 11)).toBeNull();
+    expect(cache.get("b.md", 1000, 10)).toBeNull();
+  });
+
+  it("restores entries from serialized data of the same version", () => {
+    const original = new HashCache(null, "1.0.0");
+    original.set("a.md", 1000, 10, "hash-a");
+
+    const restored = new HashCache(original.serialize(), "1.0.0");
+    expect(restored.get("a.md", 1000, 10)).toBe("hash-a");
+    expect(restored.dirty).toBe(false);
+  });
+
+  it("discards entries written by a different plugin version", () => {
+    const original = new HashCache(null, "1.0.0");
+    original.set("a.md", 1000, 10, "hash-a");
+
+    const upgraded = new HashCache(original.serialize(), "1.1.0");
+    expect(upgraded.get("a.md", 1000, 10)).toBeNull();
+    expect(upgraded.size).toBe(0);
+    expect(upgraded.dirty).toBe(true);
+  });
+
+  it("prunes paths that are no longer in the vault", () => {
+    const cache = new HashCache(null, "1.0.0");
+    cache.set("keep.md", 1000, 10, "k");
+    cache.set("gone.md", 1000, 10, "g");
+
+    cache.prune(new Set(["keep.md"]));
+    expect(cache.get("keep.md", 1000, 10)).toBe("k");
+    expect(cache.get("gone.md", 1000, 10)).toBeNull();
+  });
+
+  it("clear() forces every file to be re-hashed", () => {
+    const cache = new HashCache(null, "1.0.0");
+    cache.set("a.md", 1000, 10, "hash-a");
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+
+  it("tracks dirtiness across set and serialize", () => {
+    const cache = new HashCache(null, "1.0.0");
+    expect(cache.dirty).toBe(false);
+
+    cache.set("a.md", 1000, 10, "hash-a");
+    expect(cache.dirty).toBe(true);
+
+    cache.serialize();
+    expect(cache.dirty).toBe(false);
+
+    // Re-setting an identical entry is not a change
+    cache.set("a.md", 1000, 10, "hash-a");
+    expect(cache.dirty).toBe(false);
+  });
+});
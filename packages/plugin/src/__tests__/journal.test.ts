@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { DataAdapter } from "obsidian";
+import type { FileEntry } from "@obsidian-r2-sync/shared";
+import { changedPaths, changesExcept, replayJournal, SyncJournal } from "../sync/journal.js";
+import type { JournalHeader } from "../sync/journal.js";
+
+/**
+ * Minimal in-memory stand-in for Obsidian's DataAdapter.
+ */
+function createAdapter(files: Map<string, string>): DataAdapter {
+  return {
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => {
+      const content = files.get(path);
+      if (content === undefined) throw new Error(`ENOENT: ${path}`);
+      return content;
+    },
+    write: async (path: string, content: string) => {
+      files.set(path, content);
+    },
+    append: async (path: string, content: string) => {
+      files.set(path, (files.get(path) ?? "") + content);
+    },
+    remove: async (path: string) => {
+      files.delete(path);
+    },
+  } as unknown as DataAdapter;
+}
+
+function entry(path: string, hash: string): FileEntry {
+  return { path, hash, mtime: 1000, size: 100, lastModifiedBy: "device-a" };
+}
+
+const header: JournalHeader = {
+  startedAt: "2024-01-01T00:00:00.000Z",
+  remoteManifest: { files: { "remote.md": entry("remote.md", "r") }, lastUpdated: "", lastUpdatedBy: "device-b" },
+  etag: "etag-1",
+  planned: ["remote.md", "local.md", "gone.md"],
+};
+
+describe("SyncJournal", () => {
+  let files: Map<string, string>;
+  let journal: SyncJournal;
+
+  beforeEach(() => {
+    files = new Map();
+    journal = new SyncJournal(createAdapter(files), "plugin/journal.jsonl");
+  });
+
+  it("has nothing to resume without a journal", async () => {
+    expect(await journal.read()).toBeNull();
+  });
+
+  it("replays the changes recorded after the plan", async () => {
+    await journal.begin(header);
+    await Promise.all([
+      journal.record({ type: "downloaded", entry: entry("remote.md", "r") }),
+      journal.record({ type: "uploaded", entry: entry("local.md", "l") }),
+    ]);
+    await journal.record({ type: "deleted-local", path: "gone.md" });
+
+    const interrupted = await journal.read();
+    expect(interrupted?.header).toEqual(header);
+    expect(interrupted?.changes.downloaded).toEqual([entry("remote.md", "r")]);
+    expect(interrupted?.changes.uploaded).toEqual([entry("local.md", "l")]);
+    expect(interrupted?.changes.deletedLocal).toEqual(["gone.md"]);
+    expect([...changedPaths(interrupted!.changes)].sort()).toEqual(["gone.md", "local.md", "remote.md"]);
+  });
+
+  it("starts over when a new cycle begins, and is gone once cleared", async () => {
+    await journal.begin(header);
+    await journal.record({ type: "uploaded", entry: entry("local.md", "l") });
+    await journal.begin({ ...header, planned: [] });
+    expect((await journal.read())?.changes.uploaded).toEqual([]);
+
+    await journal.clear();
+    expect(files.size).toBe(0);
+    expect(await journal.read()).toBeNull();
+  });
+});
+
+describe("replayJournal", () => {
+  it("skips a line torn by a crash", () => {
+    const text =
+      JSON.stringify({ type: "begin", header }) + "\n" +
+      JSON.stringify({ type: "uploaded", entry: entry("a.md", "a") }) + "\n" +
+      '{"type":"uploaded","entry":{"path":"b.m';
+
+    const interrupted = replayJournal(text);
+    expect(interrupted?.changes.uploaded.map((e) => e.path)).toEqual(["a.md"]);
+  });
+
+  it("ignores a journal without its header", () => {
+    expect(replayJournal(JSON.stringify({ type: "deleted-local", path: "a.md" }) + "\n")).toBeNull();
+  });
+});
+
+describe("changesExcept", () => {
+  it("leaves out every change that touches the given paths", () => {
+    const kept = changesExcept(
+      {
+        uploaded: [entry("mine.md", "m"), entry("theirs.md", "t")],
+        downloaded: [entry("down.md", "d")],
+        resolvedConflicts: [],
+        renamed: [
+          { from: "theirs-old.md", to: "moved.md", entry: entry("moved.md", "x"), target: "remote" },
+          { from: "a.md", to: "b.md", entry: entry("b.md", "b"), target: "remote" },
+        ],
+        deletedRemote: ["theirs-gone.md", "gone.md"],
+        deletedLocal: [],
+      },
+      new Set(["theirs.md", "theirs-old.md", "theirs-gone.md"]),
+    );
+
+    expect([...changedPaths(kept)].sort()).toEqual(["a.md", "b.md", "down.md", "gone.md", "mine.md"]);
+  });
+});
@@ -41,21 +41,18 @@ describe("threeWayMerge", () => {
     const remote = "completely different remote";
 
     const result = threeWayMerge(base, local, remote);
-    // diff-match-patch may or may not resolve this — but if it fails,
-    // we should get conflict markers
-    if (!result.clean) {
-      expect(result.hasConflictMarkers).toBe(true);
-      expect(result.content).toContain("<<<<<<< LOCAL");
-      expect(result.content).toContain("=======");
-      expect(result.content).toContain(">>>>>>> REMOTE");
-    }
+    expect(result.clean).toBe(false);
+    expect(result.hasConflictMarkers).toBe(true);
+    expect(result.content).toContain("<<<<<<< LOCAL");
+    expect(result.content).toContain("=======");
+    expect(result.content).toContain(">>>>>>> REMOTE");
   });
 
   it("handles empty base with remote changes", () => {
     const result = threeWayMerge("", "local content", "remote content");
-    // With an empty base, patches from "" → "remote content" applied to "local content"
-    // This may or may not conflict depending on diff-match-patch heuristics
+    // With an empty base, both sides replaced the same (empty) line
     expect(result.content).toBeTruthy();
+    expect(result.conflicts).toHaveLength(1);
   });
 
   it("applies remote changes when base equals local", () => {
@@ -64,4 +61,71 @@ describe("threeWayMerge", () => {
     expect(result.clean).toBe(true);
     expect(result.content).toBe("new remote content");
   });
+
+  it("only marks the conflicting hunk, not the whole file", () => {
+    const base = "title\n\nintro\n\nbody\n\nfooter";
+    const local = "title\n\nintro (local)\n\nbody\n\nfooter";
+    const remote = "title\n\nintro (remote)\n\nbody\n\nfooter";
+
+    const result = threeWayMerge(base, local, remote);
+    expect(result.clean).toBe(false);
+    expect(result.content).toBe(
+      "title\n\n<<<<<<< LOCAL\nintro (local)\n=======\nintro (remote)\n>>>>>>> REMOTE\n\nbody\n\nfooter",
+    );
+  });
+
+  it("reports the number and location of conflicting hunks", () => {
+    const base = "a\nb\nc\nd\ne";
+    const local = "a\nB1\nc\nD1\ne";
+    const remote = "a\nB2\nc\nD2\ne";
+
+    const result = threeWayMerge(base, local, remote);
+    expect(result.conflicts).toHaveLength(2);
+    expect(result.conflicts[0]).toEqual({ startLine: 2, endLine: 6, baseLine: 2, baseLength: 1 });
+    expect(result.conflicts[1]).toEqual({ startLine: 8, endLine: 12, baseLine: 4, baseLength: 1 });
+
+    const lines = result.content.split("\n");
+    expect(lines[result.conflicts[1]!.startLine - 1]).toBe("<<<<<<< LOCAL");
+    expect(lines[result.conflicts[1]!.endLine - 1]).toBe(">>>>>>> REMOTE");
+  });
+
+  it("merges insertions and deletions on different lines", () => {
+    const base = "one\ntwo\nthree\nfour";
+    const local = "zero\none\ntwo\nthree\nfour"; // inserted at top
+    const remote = "one\ntwo\nfour"; // deleted "three"
+
+    const result = threeWayMerge(base, local, remote);
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe("zero\none\ntwo\nfour");
+  });
+
+  it("takes identical edits from both sides once", () => {
+    const base = "a\nb\nc";
+    const both = "a\nchanged\nc";
+
+    const result = threeWayMerge(base, both, both);
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(both);
+  });
+
+  it("does not duplicate text appended on one side", () => {
+    const base = "line1\nline2\n";
+    const local = "line1\nline2\nlocal addition\n";
+    const remote = "line1 edited\nline2\n";
+
+    const result = threeWayMerge(base, local, remote);
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe("line1 edited\nline2\nlocal addition\n");
+  });
+
+  it("conflicts when both sides insert different lines at the same place", () => {
+    const base = "a\nb";
+    const local = "a\nlocal\nb";
+    const remote = "a\nremote\nb";
+
+    const result = threeWayMerge(base, local, remote);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]!.baseLength).toBe(0);
+    expect(result.content).toBe("a\n<<<<<<< LOCAL\nlocal\n=======\nremote\n>>>>>>> REMOTE\nb");
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { PresignResult } from "@obsidian-r2-sync/shared";
+import { PresignBatcher } from "../api/presign-batcher.js";
+
+const NOW = Date.parse("2024-01-01T00:00:00.000Z");
+
+describe("PresignBatcher", () => {
+  let batches: string[][];
+  let expiresAt: string;
+  let batcher: PresignBatcher<string>;
+
+  beforeEach(() => {
+    batches = [];
+    expiresAt = new Date(NOW + 15 * 60 * 1000).toISOString();
+    batcher = new PresignBatcher<string>(
+      async (paths) => {
+        batches.push(paths);
+        return paths.map((path): PresignResult =>
+          path.startsWith("bad") ? { error: `rejected ${path}` } : { url: `https://r2/${path}`, expiresAt },
+        );
+      },
+      (path) => path,
+      3,
+      () => NOW,
+    );
+  });
+
+  it("sends requests made together as one batch", async () => {
+    const results = await Promise.all([batcher.get("a.md"), batcher.get("b.md")]);
+
+    expect(batches).toEqual([["a.md", "b.md"]]);
+    expect(results).toEqual([
+      { url: "https://r2/a.md", expiresAt },
+      { url: "https://r2/b.md", expiresAt },
+    ]);
+  });
+
+  it("splits batches at the size limit", async () => {
+    await Promise.all(["a", "b", "c", "d"].map((path) => batcher.get(path)));
+    expect(batches).toEqual([["a", "b", "c"], ["d"]]);
+  });
+
+  it("signs announced requests ahead and hands them out without another request", async () => {
+    batcher.expect(["a", "b", "c", "d"]);
+
+    await batcher.get("a");
+    expect(batches).toEqual([["a", "b", "c"]]);
+
+    expect(await batcher.get("b")).toEqual({ url: "https://r2/b", expiresAt });
+    expect(await batcher.get("c")).toEqual({ url: "https://r2/c", expiresAt });
+    expect(batches).toHaveLength(1);
+
+    await batcher.get("d");
+    expect(batches).toEqual([["a", "b", "c"], ["d"]]);
+  });
+
+  it("signs again when a URL signed ahead is about to expire", async () => {
+    expiresAt = new Date(NOW + 30 * 1000).toISOString();
+    batcher.expect(["a", "b"]);
+    await batcher.get("a");
+
+    await batcher.get("b");
+    expect(batches).toEqual([["a", "b"], ["b"]]);
+  });
+
+  it("returns per-request errors and rejects everything when the batch fails", async () => {
+    expect(await batcher.get("bad.md")).toEqual({ error: "rejected bad.md" });
+
+    const failing = new PresignBatcher<string>(async () => {
+      throw new Error("offline");
+    }, (path) => path);
+    await expect(failing.get("a.md")).rejects.toThrow("offline");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import type { SyncProgress } from "@obsidian-r2-sync/shared";
+import { ProgressTracker, formatProgress } from "../sync/progress.js";
+
+describe("ProgressTracker", () => {
+  function tracker() {
+    let now = 0;
+    const events: SyncProgress[] = [];
+    const progress = new ProgressTracker((event) => events.push(event), () => now);
+    return { progress, events, tick: (ms: number) => (now += ms) };
+  }
+
+  it("estimates the time left from the byte rate so far", () => {
+    const { progress, events, tick } = tracker();
+    progress.start("uploading", 4, 4000);
+    tick(2000);
+    progress.advance(1000);
+
+    expect(events.at(-1)).toMatchObject({ phase: "uploading", current: 1, bytesDone: 1000, etaSeconds: 6 });
+  });
+
+  it("counts the bytes of a file still being transferred", () => {
+    const { progress, events, tick } = tracker();
+    progress.start("uploading", 1, 4000);
+    tick(2000);
+    progress.addBytes(1000);
+
+    expect(events.at(-1)).toMatchObject({ current: 0, bytesDone: 1000, etaSeconds: 6 });
+
+    progress.advance(3000);
+    expect(events.at(-1)).toMatchObject({ current: 1, bytesDone: 4000 });
+  });
+
+  it("falls back to the file rate when the phase doesn't count bytes", () => {
+    const { progress, events, tick } = tracker();
+    progress.start("comparing", 10);
+    tick(1000);
+    progress.advance();
+
+    expect(events.at(-1)!.etaSeconds).toBe(9);
+  });
+
+  it("throttles events but always reports the start and end of a phase", () => {
+    const { progress, events, tick } = tracker();
+    progress.start("comparing", 1000);
+    for (let i = 0; i < 1000; i++) {
+      tick(1);
+      progress.advance();
+    }
+
+    // start, one every 250ms, and the last file
+    expect(events.length).toBeLessThan(10);
+    expect(events.at(-1)!.current).toBe(1000);
+  });
+});
+
+describe("formatProgress", () => {
+  it("shows the phase, counts and time left", () => {
+    expect(formatProgress({ phase: "uploading", current: 12, total: 340, bytesDone: 0, bytesTotal: 0, etaSeconds: 125 }))
+      .toBe("Uploading 12/340 · 2m left");
+    expect(formatProgress({ phase: "finalizing", current: 0, total: 0, bytesDone: 0, bytesTotal: 0 }))
+      .toBe("Finalizing");
+  });
+});
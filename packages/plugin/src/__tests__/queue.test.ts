@@ -16,6 +16,53 @@ describe("TransferQueue", () => {
     expect(result).toBe(42);
   });
 
+  it("reports the size of completed sized tasks", async () => {
+    const completed: number[] = [];
+    const queue = new TransferQueue(2, (size) => completed.push(size));
+
+    await Promise.all([
+      queue.enqueue(() => Promise.resolve("a"), 100),
+      queue.enqueue(() => Promise.resolve("b")),
+      queue.enqueue(() => Promise.resolve("c"), 0),
+    ]);
+
+    expect(completed).toEqual([100, 0]);
+  });
+
+  it("reports bytes while sized tasks run, taking back those of a failed attempt", async () => {
+    const bytes: number[] = [];
+    const completed: number[] = [];
+    const queue = new TransferQueue(1, (size) => completed.push(size), (reported) => bytes.push(reported));
+
+    let attempts = 0;
+    const result = queue.enqueue(async (reportBytes) => {
+      attempts++;
+      reportBytes(30);
+      if (attempts === 1) throw new Error("dropped");
+      reportBytes(50);
+      return "done";
+    }, 100);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe("done");
+    expect(bytes).toEqual([30, -30, 30, 50]);
+    expect(completed).toEqual([20]);
+  });
+
+  it("rejects tasks that haven't started when cancelled and lets running ones finish", async () => {
+    const queue = new TransferQueue(1);
+    let finishRunning!: (value: string) => void;
+    const running = queue.enqueue(() => new Promise<string>((r) => (finishRunning = r)));
+    const pending = queue.enqueue(() => Promise.resolve("never"));
+
+    queue.cancelPending(new Error("cancelled"));
+    finishRunning("done");
+
+    await expect(running).resolves.toBe("done");
+    await expect(pending).rejects.toThrow("cancelled");
+    expect(queue.pendingCount).toBe(0);
+  });
+
   it("respects concurrency limit", async () => {
     const queue = new TransferQueue(2);
     let running = 0;
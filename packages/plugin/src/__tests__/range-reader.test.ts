@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { FileRangeReader, UrlRangeReader } from "../sync/range-reader.js";
+import type { FileSystem } from "../sync/range-reader.js";
+
+const data = Uint8Array.from({ length: 100 }, (_, i) => i);
+
+describe("FileRangeReader", () => {
+  /** A file handle that reads at most `step` bytes per call, as Node's may */
+  function fileSystem(content: Uint8Array, step: number, closed: string[]): FileSystem {
+    return {
+      open: async (path) => ({
+        read: async (buffer, offset, length, position) => {
+          const bytes = content.subarray(position, position + Math.min(length, step));
+          buffer.set(bytes, offset);
+          return { bytesRead: bytes.length };
+        },
+        close: async () => {
+          closed.push(path);
+        },
+      }),
+    };
+  }
+
+  it("reads the requested range, however little each read returns", async () => {
+    const closed: string[] = [];
+    const reader = await FileRangeReader.open("/vault/video.mp4", fileSystem(data, 3, closed));
+
+    expect(new Uint8Array(await reader.read(10, 20))).toEqual(data.slice(10, 20));
+    expect(new Uint8Array(await reader.read(90, 100))).toEqual(data.slice(90, 100));
+    await reader.close();
+    expect(closed).toEqual(["/vault/video.mp4"]);
+  });
+
+  it("fails when the file is shorter than the range", async () => {
+    const reader = await FileRangeReader.open("/vault/video.mp4", fileSystem(data.slice(0, 50), 100, []));
+    await expect(reader.read(40, 60)).rejects.toThrow("File ended");
+  });
+});
+
+describe("UrlRangeReader", () => {
+  function rangeResponse(init: RequestInit): Response {
+    const [, start, end] = /bytes=(\d+)-(\d+)/.exec(new Headers(init.headers).get("Range")!)!;
+    return new Response(data.slice(Number(start), Number(end) + 1), { status: 206 });
+  }
+
+  it("reads only the requested range", async () => {
+    const requests: string[] = [];
+    const reader = new UrlRangeReader("app://video.mp4", async (_url, init) => {
+      requests.push(new Headers(init.headers).get("Range")!);
+      return rangeResponse(init);
+    });
+
+    expect(new Uint8Array(await reader.read(10, 20))).toEqual(data.slice(10, 20));
+    expect(new Uint8Array(await reader.read(90, 100))).toEqual(data.slice(90, 100));
+    expect(requests).toEqual(["bytes=10-19", "bytes=90-99"]);
+  });
+
+  it("fails rather than reading the whole file when ranges are ignored", async () => {
+    const reader = new UrlRangeReader("app://video.mp4", async () => new Response(data.slice(), { status: 200 }));
+    await expect(reader.read(0, 10)).rejects.toThrow("can't read part of a file");
+  });
+
+  it("fails when the URL can't be fetched", async () => {
+    const reader = new UrlRangeReader("app://video.mp4", async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    await expect(reader.read(30, 40)).rejects.toThrow("can't read part of a file");
+  });
+});
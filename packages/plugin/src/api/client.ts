@@ -1,23 +1,52 @@
 import type {
+  ContentEncoding,
   HealthResponse,
-  ManifestResponse,
+  ManifestIndexResponse,
+  ManifestPatchRequest,
+  ManifestPatchResponse,
+  ManifestShard,
+  PresignBatchResponse,
   PresignedUrlResponse,
-  SyncManifest,
+  PresignResult,
+  TrashEntry,
+  UploadUrlRequest,
+  VersionEntry,
 } from "@obsidian-r2-sync/shared";
-import { API_ROUTES } from "@obsidian-r2-sync/shared";
-import { requestUrl } from "obsidian";
+import { API_ROUTES, DEVICE_REVOKED_CODE, MAX_CHUNK_HASHES_PER_REQUEST } from "@obsidian-r2-sync/shared";
+import { requestUrl, type RequestUrlResponse } from "obsidian";
+import { PresignBatcher } from "./presign-batcher.js";
 
 /**
  * HTTP client for the R2 Sync Worker API.
  * Uses Obsidian's requestUrl for mobile compatibility.
+ *
+ * File contents go straight to R2 through presigned URLs. If the worker
+ * can't presign (it has no R2 API token), they go through the worker's
+ * object routes instead.
  */
 export class ApiClient {
+  /** Set once the worker reports that it can't presign URLs */
+  private proxyTransfers = false;
+  private uploadUrls = new PresignBatcher<UploadUrlRequest>(
+    (files) => this.presignBatch(API_ROUTES.UPLOAD_URLS, { files }),
+    (file) => file.path,
+  );
+  private downloadUrls = new PresignBatcher<string>(
+    (paths) => this.presignBatch(API_ROUTES.DOWNLOAD_URLS, { paths }),
+    (path) => path,
+  );
+
   constructor(
     private endpoint: string,
     private token: string,
   ) {}
 
   updateConfig(endpoint: string, token: string): void {
+    if (endpoint !== this.endpoint) {
+      this.proxyTransfers = false;
+      this.uploadUrls.clear();
+      this.downloadUrls.clear();
+    }
     this.endpoint = endpoint;
     this.token = token;
   }
@@ -27,55 +56,230 @@ export class ApiClient {
     return res.json;
   }
 
-  async getManifest(): Promise<ManifestResponse> {
-    const res = await this.request("GET", API_ROUTES.MANIFEST);
+  async getManifestIndex(): Promise<ManifestIndexResponse> {
+    const res = await this.request("GET", API_ROUTES.MANIFEST_INDEX);
     return {
-      manifest: res.json.manifest,
+      index: res.json.index,
       etag: res.json.etag ?? res.headers?.["etag"] ?? null,
     };
   }
 
-  async putManifest(manifest: SyncManifest, etag: string | null): Promise<{ etag: string }> {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    if (etag) {
-      headers["If-Match"] = etag;
+  /**
+   * Fetch manifest shards by hash. Hashes no longer stored are returned
+   * in `missing`.
+   */
+  async getManifestShards(hashes: string[]): Promise<{ shards: Record<string, ManifestShard>; missing: string[] }> {
+    const res = await this.request("POST", API_ROUTES.MANIFEST_SHARDS, {
+      body: JSON.stringify({ hashes }),
+    });
+    return { shards: res.json.shards ?? {}, missing: res.json.missing ?? [] };
+  }
+
+  /**
+   * Apply per-path operations to the remote manifest.
+   *
+   * @throws ManifestConflictError if another device changed one of the paths
+   */
+  async patchManifest(request: ManifestPatchRequest): Promise<ManifestPatchResponse> {
+    try {
+      const res = await this.request("PATCH", API_ROUTES.MANIFEST, {
+        body: JSON.stringify(request),
+      });
+      return res.json;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        throw new ManifestConflictError(error.message);
+      }
+      throw error;
     }
-    const res = await this.request("PUT", API_ROUTES.MANIFEST, {
-      body: JSON.stringify(manifest),
-      headers,
+  }
+
+  async deleteFiles(paths: string[]): Promise<void> {
+    await this.request("POST", API_ROUTES.DELETE_FILES, {
+      body: JSON.stringify({ paths }),
     });
-    return {
-      etag: res.json.etag ?? res.headers?.["etag"] ?? "",
-    };
   }
 
-  async getUploadUrl(path: string, hash: string): Promise<PresignedUrlResponse> {
-    const res = await this.request("POST", API_ROUTES.UPLOAD_URL, {
+  /**
+   * Move files server-side.
+   * Returns the source paths that no longer exist in R2.
+   */
+  async renameFiles(renames: Array<{ from: string; to: string }>): Promise<{ missing: string[] }> {
+    const res = await this.request("POST", API_ROUTES.RENAME_FILES, {
+      body: JSON.stringify({ renames }),
+    });
+    return { missing: res.json.missing ?? [] };
+  }
+
+  async listTrash(): Promise<TrashEntry[]> {
+    const res = await this.request("GET", API_ROUTES.TRASH);
+    return res.json.files ?? [];
+  }
+
+  /**
+   * Move files from the remote trash back to their original paths.
+   * Returns the paths that were no longer in the trash.
+   */
+  async restoreFromTrash(paths: string[]): Promise<{ missing: string[] }> {
+    const res = await this.request("POST", API_ROUTES.RESTORE_TRASH, {
+      body: JSON.stringify({ paths }),
+    });
+    return { missing: res.json.missing ?? [] };
+  }
+
+  /**
+   * List previous versions of a file, newest first.
+   */
+  async listVersions(path: string): Promise<VersionEntry[]> {
+    const res = await this.request("GET", `${API_ROUTES.VERSIONS}?path=${encodeURIComponent(path)}`);
+    return res.json.versions ?? [];
+  }
+
+  async getVersionDownloadUrl(path: string, hash: string): Promise<PresignedUrlResponse> {
+    const res = await this.request("POST", API_ROUTES.VERSION_DOWNLOAD_URL, {
       body: JSON.stringify({ path, hash }),
     });
     return res.json;
   }
 
-  async getDownloadUrl(path: string): Promise<PresignedUrlResponse> {
-    const res = await this.request("POST", API_ROUTES.DOWNLOAD_URL, {
-      body: JSON.stringify({ path }),
+  /**
+   * Return the chunk hashes that are not stored in R2 yet.
+   */
+  async findMissingChunks(hashes: string[]): Promise<string[]> {
+    const missing: string[] = [];
+    for (let i = 0; i < hashes.length; i += MAX_CHUNK_HASHES_PER_REQUEST) {
+      const res = await this.request("POST", API_ROUTES.MISSING_CHUNKS, {
+        body: JSON.stringify({ hashes: hashes.slice(i, i + MAX_CHUNK_HASHES_PER_REQUEST) }),
+      });
+      missing.push(...(res.json.missing ?? []));
+    }
+    return missing;
+  }
+
+  /**
+   * Upload the stored body of a file.
+   *
+   * @param checksum - Base64-encoded SHA-256 of `body`
+   * @param chunked - `body` is the chunk list of a large file
+   */
+  async uploadFile(
+    path: string,
+    hash: string,
+    body: ArrayBuffer,
+    checksum: string,
+    encoding?: ContentEncoding,
+    chunked?: boolean,
+  ): Promise<RequestUrlResponse> {
+    const headers: Record<string, string> = {
+      "x-amz-meta-sha256": hash,
+      "x-amz-checksum-sha256": checksum,
+    };
+    if (encoding) headers["x-amz-meta-encoding"] = encoding;
+    if (chunked) headers["x-amz-meta-chunked"] = "true";
+
+    return this.transfer(
+      async () => presigned(await this.uploadUrls.get({ path, hash, checksum, encoding, chunked })),
+      { method: "PUT", path: `${API_ROUTES.FILE_OBJECT}/${encodePath(path)}`, body, headers },
+    );
+  }
+
+  /**
+   * Announce the files about to be downloaded, so their URLs are
+   * presigned in as few requests as possible.
+   */
+  expectDownloads(paths: string[]): void {
+    this.downloadUrls.expect(paths);
+  }
+
+  async downloadFile(path: string): Promise<RequestUrlResponse> {
+    return this.transfer(
+      async () => presigned(await this.downloadUrls.get(path)),
+      { method: "GET", path: `${API_ROUTES.FILE_OBJECT}/${encodePath(path)}` },
+    );
+  }
+
+  async downloadVersion(path: string, hash: string): Promise<RequestUrlResponse> {
+    const query = `path=${encodeURIComponent(path)}&hash=${encodeURIComponent(hash)}`;
+    return this.transfer(
+      () => this.getVersionDownloadUrl(path, hash),
+      { method: "GET", path: `${API_ROUTES.VERSION_OBJECT}?${query}` },
+    );
+  }
+
+  /**
+   * Upload a chunk, unless it was stored meanwhile (e.g. by another device
+   * uploading the same content) — stored chunks are never replaced.
+   *
+   * @param checksum - Base64-encoded SHA-256 of `body`
+   */
+  async uploadChunk(hash: string, body: ArrayBuffer, checksum: string): Promise<void> {
+    try {
+      await this.transfer(
+        () => this.getChunkUploadUrl(hash, checksum),
+        {
+          method: "PUT",
+          path: `${API_ROUTES.CHUNK_OBJECT}/${encodeURIComponent(hash)}`,
+          body,
+          headers: { "x-amz-checksum-sha256": checksum },
+        },
+      );
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 409)) throw error;
+    }
+  }
+
+  async downloadChunk(hash: string): Promise<RequestUrlResponse> {
+    return this.transfer(
+      () => this.getChunkDownloadUrl(hash),
+      { method: "GET", path: `${API_ROUTES.CHUNK_OBJECT}/${encodeURIComponent(hash)}` },
+    );
+  }
+
+  async getChunkUploadUrl(hash: string, checksum: string): Promise<PresignedUrlResponse> {
+    const res = await this.request("POST", API_ROUTES.CHUNK_UPLOAD_URL, {
+      body: JSON.stringify({ hash, checksum }),
     });
     return res.json;
   }
 
-  async deleteFiles(paths: string[]): Promise<void> {
-    await this.request("POST", API_ROUTES.DELETE_FILES, {
-      body: JSON.stringify({ paths }),
+  async getChunkDownloadUrl(hash: string): Promise<PresignedUrlResponse> {
+    const res = await this.request("POST", API_ROUTES.CHUNK_DOWNLOAD_URL, {
+      body: JSON.stringify({ hash }),
     });
+    return res.json;
+  }
+
+  private async presignBatch(route: string, body: unknown): Promise<PresignResult[]> {
+    const res = await this.request("POST", route, { body: JSON.stringify(body) });
+    return (res.json as PresignBatchResponse).results;
+  }
+
+  /**
+   * Transfer a body through a presigned URL, or through the worker's
+   * object route if the worker answers 501 (presigning not configured).
+   */
+  private async transfer(
+    presign: () => Promise<PresignedUrlResponse>,
+    proxy: { method: "GET" | "PUT"; path: string; body?: ArrayBuffer; headers?: Record<string, string> },
+  ): Promise<RequestUrlResponse> {
+    if (!this.proxyTransfers) {
+      try {
+        const { url, headers } = await presign();
+        return await requestUrl({ url, method: proxy.method, body: proxy.body, headers });
+      } catch (error) {
+        if (!(error instanceof ApiError && error.status === 501)) throw error;
+        console.log("R2 Sync: Presigned URLs are not configured, transferring through the worker");
+        this.proxyTransfers = true;
+      }
+    }
+    return this.request(proxy.method, proxy.path, { body: proxy.body, headers: proxy.headers });
   }
 
   private async request(
     method: string,
     path: string,
     options: {
-      body?: string;
+      body?: string | ArrayBuffer;
       headers?: Record<string, string>;
       skipAuth?: boolean;
     } = {},
@@ -89,7 +293,7 @@ export class ApiClient {
       headers["Authorization"] = `Bearer ${this.token}`;
     }
 
-    if (options.body && !headers["Content-Type"]) {
+    if (typeof options.body === "string" && !headers["Content-Type"]) {
       headers["Content-Type"] = "application/json";
     }
 
@@ -106,6 +310,9 @@ export class ApiClient {
       if (response.status === 412) {
         throw new ManifestConflictError(errorBody);
       }
+      if (response.status === 401 && response.json?.code === DEVICE_REVOKED_CODE) {
+        throw new DeviceRevokedError(errorBody);
+      }
       throw new ApiError(response.status, errorBody);
     }
 
@@ -113,6 +320,19 @@ export class ApiClient {
   }
 }
 
+/**
+ * @throws ApiError if the worker rejected the file
+ */
+function presigned(result: PresignResult): PresignedUrlResponse {
+  if ("error" in result) throw new ApiError(400, result.error);
+  return result;
+}
+
+/** Percent-encode each segment of a vault path for use in a route */
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
 export class ApiError extends Error {
   constructor(
     public status: number,
@@ -129,3 +349,11 @@ export class ManifestConflictError extends Error {
     this.name = "ManifestConflictError";
   }
 }
+
+/** This device's token was revoked; syncing can't continue until a new one is entered */
+export class DeviceRevokedError extends ApiError {
+  constructor(message: string) {
+    super(401, message);
+    this.name = "DeviceRevokedError";
+  }
+}
@@ -0,0 +1,112 @@
+import type { PresignedUrlResponse, PresignResult } from "@obsidian-r2-sync/shared";
+import { MAX_PRESIGN_BATCH } from "@obsidian-r2-sync/shared";
+
+/** URLs signed ahead are not used this close to expiring */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface PendingRequest<T> {
+  request: T;
+  resolve: (result: PresignResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Collects presign requests into batch requests.
+ *
+ * Requests made together — e.g. by the transfers the TransferQueue starts
+ * at once — are sent as one batch, topped up with the requests announced
+ * through {@link expect} for transfers still waiting in the queue. URLs
+ * signed ahead are kept until they are asked for, or until they are
+ * about to expire.
+ */
+export class PresignBatcher<T> {
+  private pending: PendingRequest<T>[] = [];
+  /** Announced requests not signed yet, by key */
+  private expected = new Map<string, T>();
+  /** URLs signed ahead, by key */
+  private signed = new Map<string, PresignedUrlResponse>();
+  private scheduled = false;
+
+  constructor(
+    private signBatch: (requests: T[]) => Promise<PresignResult[]>,
+    private keyOf: (request: T) => string,
+    private maxBatch = MAX_PRESIGN_BATCH,
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Announce the requests that are about to be made, replacing any
+   * earlier announcement, so they can be signed in fewer batches.
+   */
+  expect(requests: T[]): void {
+    this.expected = new Map(requests.map((request) => [this.keyOf(request), request]));
+  }
+
+  /**
+   * Presign a request, as part of the next batch unless it was signed ahead.
+   *
+   * @returns The URL, or the reason the worker rejected the request
+   */
+  get(request: T): Promise<PresignResult> {
+    const key = this.keyOf(request);
+    this.expected.delete(key);
+
+    const signed = this.signed.get(key);
+    if (signed) {
+      this.signed.delete(key);
+      if (Date.parse(signed.expiresAt) - this.now() > EXPIRY_MARGIN_MS) {
+        return Promise.resolve(signed);
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ request, resolve, reject });
+      this.schedule();
+    });
+  }
+
+  /** Forget announced requests and URLs signed ahead */
+  clear(): void {
+    this.expected.clear();
+    this.signed.clear();
+  }
+
+  /** Send a batch once the requests made in the same turn have joined it */
+  private schedule(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    setTimeout(() => {
+      this.scheduled = false;
+      void this.flush();
+    }, 0);
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.pending.splice(0, this.maxBatch);
+    if (this.pending.length > 0) this.schedule();
+
+    const ahead: T[] = [];
+    for (const [key, request] of this.expected) {
+      if (batch.length + ahead.length >= this.maxBatch) break;
+      ahead.push(request);
+      this.expected.delete(key);
+    }
+
+    let results: PresignResult[];
+    try {
+      results = await this.signBatch([...batch.map((pending) => pending.request), ...ahead]);
+    } catch (error) {
+      // Requests signed ahead are simply made again when they are needed
+      for (const pending of batch) pending.reject(error);
+      return;
+    }
+
+    batch.forEach((pending, i) => pending.resolve(results[i] ?? { error: "missing from the batch response" }));
+    ahead.forEach((request, i) => {
+      const result = results[batch.length + i];
+      if (result && !("error" in result)) {
+        this.signed.set(this.keyOf(request), result);
+      }
+    });
+  }
+}
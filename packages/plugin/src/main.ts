@@ -1,16 +1,31 @@
-import { Notice, Plugin } from "obsidian";
-import type { SyncConfig, SyncManifest } from "@obsidian-r2-sync/shared";
-import { DEFAULT_SYNC_INTERVAL, parseDeviceId } from "@obsidian-r2-sync/shared";
-import { SyncEngine } from "./sync/engine.js";
-import { ApiClient } from "./api/client.js";
+import { Menu, Notice, Plugin, TFile, type TAbstractFile, type WorkspaceLeaf } from "obsidian";
+import type { SyncConfig, SyncManifest, SyncProgress, SyncStatus } from "@obsidian-r2-sync/shared";
+import {
+  DEFAULT_DELETE_THRESHOLD_COUNT,
+  DEFAULT_DELETE_THRESHOLD_PERCENT,
+  DEFAULT_SYNC_INTERVAL,
+  parseDeviceId,
+} from "@obsidian-r2-sync/shared";
+import { SyncAbortedError, SyncCancelledError, SyncEngine } from "./sync/engine.js";
+import { ApiClient, DeviceRevokedError, ManifestConflictError } from "./api/client.js";
 import { R2SyncSettingsTab } from "./ui/settings-tab.js";
 import { StatusBar } from "./ui/status-bar.js";
+import { PROGRESS_VIEW_TYPE, SyncProgressView } from "./ui/progress-view.js";
+import { SyncPreviewModal } from "./ui/sync-preview-modal.js";
+import { TrashModal } from "./ui/trash-modal.js";
+import { VersionHistoryModal } from "./ui/version-history-modal.js";
+import { VersionPreviewModal } from "./ui/version-preview-modal.js";
+import { HashCache } from "./sync/hash-cache.js";
+import { ChangeTracker } from "./sync/change-tracker.js";
+import { isDiffEmpty } from "./sync/differ.js";
+import type { HashCacheData } from "./sync/hash-cache.js";
 
-/** Stored plugin data: settings + base manifest + last ETag */
+/** Stored plugin data: settings + base manifest + last ETag + hash cache */
 interface PluginData {
   settings: SyncConfig;
   baseManifest: SyncManifest | null;
   lastEtag: string | null;
+  hashCache?: HashCacheData | null;
 }
 
 const DEFAULT_SETTINGS: SyncConfig = {
@@ -24,23 +39,46 @@ const DEFAULT_SETTINGS: SyncConfig = {
     ".obsidian/workspace-mobile.json",
   ],
   syncOnFileOpen: false,
+  syncOnChange: true,
+  deleteThresholdCount: DEFAULT_DELETE_THRESHOLD_COUNT,
+  deleteThresholdPercent: DEFAULT_DELETE_THRESHOLD_PERCENT,
+  encryptionPassphrase: "",
 };
 
 export default class R2SyncPlugin extends Plugin {
   settings!: SyncConfig;
   baseManifest: SyncManifest | null = null;
   lastEtag: string | null = null;
+  hashCache: HashCache = new HashCache(null);
+  syncStatus: SyncStatus = { state: "idle" };
   private syncEngine!: SyncEngine;
   private apiClient!: ApiClient;
   private statusBar!: StatusBar;
+  private changeTracker!: ChangeTracker;
   private syncIntervalId: number | null = null;
   private isSyncing = false;
+  /** The token was revoked — no sync can succeed until a new one is entered */
+  private tokenRevoked = false;
+  /** A new passphrase is being typed in settings — syncing now would use a partial one */
+  private editingPassphrase = false;
+  /** Held syncs were already explained for the current passphrase edit — interval syncs would repeat it */
+  private passphraseHoldNotified = false;
+
+  /** Vault-relative path of this plugin's folder (for local sync state files) */
+  get pluginDir(): string {
+    return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+  }
 
   /** Device ID derived from the auth token (format: "deviceId:hmacHex") */
   get deviceId(): string {
     return parseDeviceId(this.settings.token);
   }
 
+  /** Whether an endpoint and token have been configured */
+  get isConfigured(): boolean {
+    return Boolean(this.settings.endpoint && this.settings.token);
+  }
+
   async onload(): Promise<void> {
     await this.loadSettings();
 
@@ -50,8 +88,16 @@ export default class R2SyncPlugin extends Plugin {
     // Initialize sync engine
     this.syncEngine = new SyncEngine(this.app, this.apiClient, this);
 
-    // Add status bar
-    this.statusBar = new StatusBar(this.addStatusBarItem());
+    // Add status bar (click for the progress panel, or to cancel a running sync)
+    const statusBarEl = this.addStatusBarItem();
+    this.statusBar = new StatusBar(statusBarEl);
+    this.registerDomEvent(statusBarEl, "click", (event) => this.onStatusBarClick(event));
+
+    this.registerView(PROGRESS_VIEW_TYPE, (leaf) => new SyncProgressView(
+      leaf,
+      () => this.syncStatus,
+      () => this.cancelSync(),
+    ));
 
     // Add settings tab
     this.addSettingTab(new R2SyncSettingsTab(this.app, this));
@@ -65,16 +111,62 @@ export default class R2SyncPlugin extends Plugin {
 
     this.addCommand({
       id: "force-full-sync",
-      name: "Force full sync (ignore base manifest)",
+      name: "Force full sync (re-hash all files, ignore base manifest)",
       callback: () => this.triggerSync(true),
     });
 
-    // Start interval sync if configured
+    this.addCommand({
+      id: "preview-sync",
+      name: "Preview sync",
+      callback: () => this.previewSync(),
+    });
+    this.addCommand({
+      id: "cancel-sync",
+      name: "Cancel sync",
+      checkCallback: (checking) => {
+        if (!this.isSyncing) return false;
+        if (!checking) this.cancelSync();
+        return true;
+      },
+    });
+    this.addCommand({
+      id: "show-sync-progress",
+      name: "Show sync progress",
+      callback: () => this.showProgressPanel(),
+    });
+    this.addCommand({
+      id: "restore-from-trash",
+      name: "Restore deleted file from remote trash",
+      callback: () => this.openTrash(),
+    });
+    this.addCommand({
+      id: "version-history",
+      name: "Show version history of current file",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) return false;
+        if (!checking) this.showVersionHistory(file);
+        return true;
+      },
+    });
+
+    // Push changed files shortly after vault events
+    this.changeTracker = new ChangeTracker((paths) => this.syncChangedPaths(paths));
+
+    // Register vault events once the vault has loaded, so the initial
+    // "create" event for every existing file isn't treated as a change
+    this.app.workspace.onLayoutReady(() => {
+      this.registerVaultEvents();
+      void this.resumeInterruptedSync();
+    });
+
+    // Start interval sync if configured (periodic full sync pulls remote changes)
     this.startSyncInterval();
   }
 
   onunload(): void {
     this.stopSyncInterval();
+    this.changeTracker.cancel();
   }
 
   async loadSettings(): Promise<void> {
@@ -82,6 +174,7 @@ export default class R2SyncPlugin extends Plugin {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, data?.settings);
     this.baseManifest = data?.baseManifest ?? null;
     this.lastEtag = data?.lastEtag ?? null;
+    this.hashCache = new HashCache(data?.hashCache ?? null);
   }
 
   async saveSettings(): Promise<void> {
@@ -89,6 +182,7 @@ export default class R2SyncPlugin extends Plugin {
       settings: this.settings,
       baseManifest: this.baseManifest,
       lastEtag: this.lastEtag,
+      hashCache: this.hashCache.serialize(),
     };
     await this.saveData(data);
 
@@ -96,8 +190,171 @@ export default class R2SyncPlugin extends Plugin {
     this.apiClient.updateConfig(this.settings.endpoint, this.settings.token);
   }
 
-  async triggerSync(forceFullSync = false): Promise<void> {
-    if (!this.settings.endpoint || !this.settings.token) {
+  /**
+   * Run a sync cycle.
+   *
+   * @param forceFullSync - Ignore the base manifest and re-hash every file
+   * @param paths         - Only sync these paths (event-driven syncs); completes silently
+   */
+  async triggerSync(forceFullSync = false, paths?: string[]): Promise<void> {
+    if (this.tokenRevoked) {
+      if (!paths) {
+        new Notice("R2 Sync: This device's token was revoked — enter a new one in settings");
+      }
+      return;
+    }
+    if (this.editingPassphrase) {
+      if (!paths && !this.passphraseHoldNotified) {
+        this.passphraseHoldNotified = true;
+        new Notice("R2 Sync: Finish setting the encryption passphrase before syncing");
+      }
+      return;
+    }
+    await this.runExclusive(async () => {
+      await this.syncEngine.sync(forceFullSync, paths);
+      if (!paths) {
+        new Notice("R2 Sync: Sync complete");
+      }
+    });
+  }
+
+  /**
+   * Finish recording a sync that was interrupted the last time Obsidian ran.
+   */
+  private async resumeInterruptedSync(): Promise<void> {
+    if (!this.isConfigured || !(await this.syncEngine.hasInterruptedSync())) return;
+    await this.runExclusive(async () => {
+      if (await this.syncEngine.resumeInterrupted()) {
+        new Notice("R2 Sync: Finished a sync that was interrupted");
+      }
+    });
+  }
+
+  /**
+   * Plan a sync cycle and show it for review before applying anything.
+   */
+  async previewSync(): Promise<void> {
+    await this.runExclusive(async () => {
+      await this.syncEngine.resumeInterrupted();
+      const plan = await this.syncEngine.plan();
+      if (isDiffEmpty(plan.diff)) {
+        new Notice("R2 Sync: Everything up to date");
+        return;
+      }
+
+      const decision = await new SyncPreviewModal(this.app, plan.diff).waitForDecision();
+      if (decision.action === "cancel") {
+        new Notice("R2 Sync: Sync cancelled — nothing was changed");
+        return;
+      }
+
+      try {
+        // Deletions were listed in the preview, so don't ask about them again
+        await this.syncEngine.applyPlan(plan, {
+          selection: decision.action === "apply-selected" ? decision.paths : undefined,
+          deletionsConfirmed: true,
+        });
+      } catch (error) {
+        if (error instanceof ManifestConflictError) {
+          throw new Error("Remote changed since the preview — run Preview sync again");
+        }
+        throw error;
+      }
+      new Notice("R2 Sync: Sync complete");
+    });
+  }
+
+  /**
+   * List the remote trash and let the user pick a file to restore.
+   */
+  async openTrash(): Promise<void> {
+    if (!this.isConfigured) {
+      new Notice("R2 Sync: Please configure endpoint and token in settings");
+      return;
+    }
+
+    let entries;
+    try {
+      entries = await this.syncEngine.listTrash();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      new Notice(`R2 Sync: Could not list trash — ${message}`);
+      return;
+    }
+
+    if (entries.length === 0) {
+      new Notice("R2 Sync: Remote trash is empty");
+      return;
+    }
+
+    new TrashModal(this.app, entries, (entry) => this.restoreFromTrash(entry.path)).open();
+  }
+
+  /**
+   * Restore a file from the remote trash and sync it back into the manifest.
+   */
+  async restoreFromTrash(path: string): Promise<void> {
+    if (this.app.vault.getAbstractFileByPath(path)) {
+      new Notice(`R2 Sync: ${path} already exists in the vault — rename it first`);
+      return;
+    }
+
+    await this.runExclusive(async () => {
+      const missing = await this.syncEngine.restoreFromTrash([path]);
+      if (missing.length > 0) {
+        new Notice(`R2 Sync: ${path} is no longer in the trash`);
+        return;
+      }
+      await this.syncEngine.sync(false, [path]);
+      new Notice(`R2 Sync: Restored ${path}`);
+    });
+  }
+
+  /**
+   * List the previous versions of a file and let the user preview and restore one.
+   */
+  async showVersionHistory(file: TFile): Promise<void> {
+    if (!this.isConfigured) {
+      new Notice("R2 Sync: Please configure endpoint and token in settings");
+      return;
+    }
+
+    let versions;
+    try {
+      versions = await this.syncEngine.listVersions(file.path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      new Notice(`R2 Sync: Could not list versions — ${message}`);
+      return;
+    }
+
+    if (versions.length === 0) {
+      new Notice(`R2 Sync: No previous versions of ${file.path}`);
+      return;
+    }
+
+    new VersionHistoryModal(this.app, versions, async (version) => {
+      try {
+        const content = await this.syncEngine.fetchVersion(file.path, version.hash);
+        const restore = await new VersionPreviewModal(this.app, file.path, version, content).waitForDecision();
+        if (!restore) return;
+
+        // The modify event pushes the restored content like any other edit
+        await this.app.vault.modifyBinary(file, content);
+        new Notice(`R2 Sync: Restored previous version of ${file.path}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        new Notice(`R2 Sync: Could not restore version — ${message}`);
+      }
+    }).open();
+  }
+
+  /**
+   * Run a sync task unless one is already running, keeping the status bar
+   * up to date and reporting failures.
+   */
+  private async runExclusive(task: () => Promise<void>): Promise<void> {
+    if (!this.isConfigured) {
       new Notice("R2 Sync: Please configure endpoint and token in settings");
       return;
     }
@@ -108,14 +365,44 @@ export default class R2SyncPlugin extends Plugin {
     }
 
     this.isSyncing = true;
+    this.syncEngine.clearCancellation();
     try {
       this.statusBar.setSyncing();
-      await this.syncEngine.sync(forceFullSync);
+      this.setStatus({
+        state: "syncing",
+        progress: { phase: "comparing", current: 0, total: 0, bytesDone: 0, bytesTotal: 0 },
+      });
+      await task();
       this.statusBar.setIdle();
-      new Notice("R2 Sync: Sync complete");
+      this.setStatus({ state: "idle" });
     } catch (error) {
+      if (error instanceof SyncAbortedError) {
+        this.statusBar.setIdle();
+        this.setStatus({ state: "idle" });
+        new Notice(`R2 Sync: Sync paused — ${error.message}. Use Preview sync to review them.`);
+        return;
+      }
+      if (error instanceof SyncCancelledError) {
+        this.statusBar.setIdle();
+        this.setStatus({ state: "idle" });
+        new Notice(`R2 Sync: Sync cancelled — ${error.message}`);
+        return;
+      }
+      if (error instanceof DeviceRevokedError) {
+        // Retrying can't succeed, so stop syncing until a new token is entered
+        this.tokenRevoked = true;
+        this.stopSyncInterval();
+        this.statusBar.setError();
+        this.setStatus({ state: "error", message: "This device's token was revoked" });
+        new Notice(
+          "R2 Sync: This device's token was revoked. Generate a new one with the add-device command and enter it in settings.",
+          0,
+        );
+        return;
+      }
       this.statusBar.setError();
       const message = error instanceof Error ? error.message : "Unknown error";
+      this.setStatus({ state: "error", message });
       new Notice(`R2 Sync: Sync failed — ${message}`);
       console.error("R2 Sync error:", error);
     } finally {
@@ -123,6 +410,85 @@ export default class R2SyncPlugin extends Plugin {
     }
   }
 
+  /**
+   * Show progress reported by the sync engine in the status bar and progress panel.
+   */
+  reportProgress(progress: SyncProgress): void {
+    if (!this.isSyncing) return;
+    this.statusBar.setProgress(progress);
+    this.setStatus({ state: "syncing", progress });
+  }
+
+  private setStatus(status: SyncStatus): void {
+    this.syncStatus = status;
+    for (const leaf of this.app.workspace.getLeavesOfType(PROGRESS_VIEW_TYPE)) {
+      if (leaf.view instanceof SyncProgressView) {
+        leaf.view.render(status);
+      }
+    }
+  }
+
+  /**
+   * Stop the running sync. Files already transferred are kept and recorded.
+   */
+  cancelSync(): void {
+    if (!this.isSyncing) return;
+    this.syncEngine.cancel();
+    this.statusBar.setCancelling();
+  }
+
+  private onStatusBarClick(event: MouseEvent): void {
+    if (!this.isSyncing) {
+      this.showProgressPanel();
+      return;
+    }
+
+    const menu = new Menu();
+    menu.addItem((item) => item.setTitle("Show sync progress").setIcon("refresh-cw").onClick(() => this.showProgressPanel()));
+    menu.addItem((item) => item.setTitle("Cancel sync").setIcon("x-circle").onClick(() => this.cancelSync()));
+    menu.showAtMouseEvent(event);
+  }
+
+  private async showProgressPanel(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(PROGRESS_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: PROGRESS_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Use a new auth token, resuming sync if the previous one was revoked.
+   */
+  async setToken(token: string): Promise<void> {
+    this.settings.token = token;
+    this.tokenRevoked = false;
+    await this.saveSettings();
+    this.startSyncInterval();
+  }
+
+  /**
+   * Hold syncs while the passphrase field has unapplied edits.
+   */
+  setEditingPassphrase(editing: boolean): void {
+    if (editing && !this.editingPassphrase) {
+      this.passphraseHoldNotified = false;
+    }
+    this.editingPassphrase = editing;
+  }
+
+  /**
+   * Apply a new encryption passphrase and let syncs run again.
+   */
+  async setPassphrase(passphrase: string): Promise<void> {
+    this.settings.encryptionPassphrase = passphrase;
+    this.editingPassphrase = false;
+    await this.saveSettings();
+  }
+
   startSyncInterval(): void {
     this.stopSyncInterval();
     if (this.settings.syncInterval > 0) {
@@ -141,4 +507,41 @@ export default class R2SyncPlugin extends Plugin {
     }
   }
 
+  private registerVaultEvents(): void {
+    const onChange = (file: TAbstractFile, oldPath?: string) => {
+      if (!this.settings.syncOnChange || !this.isConfigured || !(file instanceof TFile)) return;
+      if (oldPath) {
+        this.changeTracker.add(file.path, oldPath);
+      } else {
+        this.changeTracker.add(file.path);
+      }
+    };
+
+    this.registerEvent(this.app.vault.on("create", (file) => onChange(file)));
+    this.registerEvent(this.app.vault.on("modify", (file) => onChange(file)));
+    this.registerEvent(this.app.vault.on("delete", (file) => onChange(file)));
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => onChange(file, oldPath)));
+
+    this.registerEvent(
+      this.app.workspace.on("file-open", (file) => {
+        if (this.settings.syncOnFileOpen && this.isConfigured && file) {
+          this.triggerSync(false, [file.path]);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Push the paths collected by the change tracker.
+   * If a sync is already running, the paths are queued again for the next batch.
+   */
+  private async syncChangedPaths(paths: string[]): Promise<void> {
+    if (this.tokenRevoked) return;
+    if (this.isSyncing || this.editingPassphrase) {
+      this.changeTracker.add(...paths);
+      return;
+    }
+    await this.triggerSync(false, paths);
+  }
+
 }
@@ -0,0 +1,117 @@
+import type { DataAdapter } from "obsidian";
+
+/** Files larger than this are not kept as merge bases */
+export const BASE_STORE_MAX_FILE_SIZE = 1024 * 1024; // 1 MB
+
+/** Total budget for all stored base contents */
+export const BASE_STORE_MAX_TOTAL_SIZE = 50 * 1024 * 1024; // 50 MB
+
+export interface BaseStoreLimits {
+  maxFileSize: number;
+  maxTotalSize: number;
+}
+
+/**
+ * Local store of text file contents as of the last successful sync,
+ * keyed by content hash.
+ *
+ * These are the common ancestors used by three-way merge. Contents are
+ * written as plain files under the plugin folder so they don't bloat
+ * the plugin's data.json.
+ */
+export class BaseStore {
+  /** hash → stored size in bytes, loaded lazily from disk */
+  private index: Map<string, number> | null = null;
+
+  constructor(
+    private adapter: DataAdapter,
+    private dir: string,
+    private limits: BaseStoreLimits = {
+      maxFileSize: BASE_STORE_MAX_FILE_SIZE,
+      maxTotalSize: BASE_STORE_MAX_TOTAL_SIZE,
+    },
+  ) {}
+
+  /**
+   * Get the stored content for a hash, or null if it isn't stored.
+   */
+  async get(hash: string): Promise<string | null> {
+    const index = await this.loadIndex();
+    if (!index.has(hash)) return null;
+
+    try {
+      return await this.adapter.read(this.pathFor(hash));
+    } catch {
+      index.delete(hash);
+      return null;
+    }
+  }
+
+  async has(hash: string): Promise<boolean> {
+    const index = await this.loadIndex();
+    return index.has(hash);
+  }
+
+  /**
+   * Store content under its hash.
+   * Returns false if the content was skipped because of the size limits.
+   */
+  async put(hash: string, content: string): Promise<boolean> {
+    const index = await this.loadIndex();
+    if (index.has(hash)) return true;
+
+    const size = new TextEncoder().encode(content).byteLength;
+    if (size > this.limits.maxFileSize) return false;
+    if (this.totalSize(index) + size > this.limits.maxTotalSize) return false;
+
+    if (!(await this.adapter.exists(this.dir))) {
+      await this.adapter.mkdir(this.dir);
+    }
+    await this.adapter.write(this.pathFor(hash), content);
+    index.set(hash, size);
+    return true;
+  }
+
+  /**
+   * Remove every stored content whose hash is not in `keep`.
+   */
+  async prune(keep: Set<string>): Promise<void> {
+    const index = await this.loadIndex();
+    for (const hash of [...index.keys()]) {
+      if (keep.has(hash)) continue;
+      try {
+        await this.adapter.remove(this.pathFor(hash));
+      } catch {
+        // Already gone — nothing to do
+      }
+      index.delete(hash);
+    }
+  }
+
+  private async loadIndex(): Promise<Map<string, number>> {
+    if (this.index) return this.index;
+
+    const index = new Map<string, number>();
+    if (await this.adapter.exists(this.dir)) {
+      const listed = await this.adapter.list(this.dir);
+      for (const filePath of listed.files) {
+        const hash = filePath.substring(filePath.lastIndexOf("/") + 1);
+        const stat = await this.adapter.stat(filePath);
+        index.set(hash, stat?.size ?? 0);
+      }
+    }
+
+    this.index = index;
+    return index;
+  }
+
+  private totalSize(index: Map<string, number>): number {
+    let total = 0;
+    for (const size of index.values()) total += size;
+    return total;
+  }
+
+  private pathFor(hash: string): string {
+    return `${this.dir}/${hash}`;
+  }
+}
@@ -0,0 +1,77 @@
+import { CHANGE_DEBOUNCE_MS, CHANGE_MAX_WAIT_MS } from "@obsidian-r2-sync/shared";
+
+/**
+ * Collects vault paths touched by create/modify/delete/rename events
+ * and hands them off in one debounced batch.
+ *
+ * The batch is flushed once no new change has arrived for `debounceMs`,
+ * or at the latest `maxWaitMs` after the first pending change, so
+ * continuous typing still gets pushed periodically.
+ */
+export class ChangeTracker {
+  private pending = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private firstPendingAt: number | null = null;
+
+  constructor(
+    private onFlush: (paths: string[]) => void,
+    private debounceMs = CHANGE_DEBOUNCE_MS,
+    private maxWaitMs = CHANGE_MAX_WAIT_MS,
+  ) {}
+
+  /**
+   * Record changed paths and (re)start the debounce timer.
+   */
+  add(...paths: string[]): void {
+    if (paths.length === 0) return;
+    for (const path of paths) {
+      this.pending.add(path);
+    }
+
+    const now = Date.now();
+    if (this.firstPendingAt === null) {
+      this.firstPendingAt = now;
+    }
+
+    const waited = now - this.firstPendingAt;
+    const delay = Math.max(0, Math.min(this.debounceMs, this.maxWaitMs - waited));
+
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), delay);
+  }
+
+  /**
+   * Hand off all pending paths immediately.
+   */
+  flush(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.firstPendingAt = null;
+
+    if (this.pending.size === 0) return;
+    const paths = [...this.pending];
+    this.pending.clear();
+    this.onFlush(paths);
+  }
+
+  /**
+   * Drop all pending paths without flushing.
+   */
+  cancel(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.firstPendingAt = null;
+    this.pending.clear();
+  }
+
+  /** Number of paths waiting to be flushed */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+}
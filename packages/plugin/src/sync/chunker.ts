@@ -0,0 +1,154 @@
+import type { ChunkRef } from "@obsidian-r2-sync/shared";
+import { CHUNK_AVG_SIZE, CHUNK_LIST_MAGIC, CHUNK_MAX_SIZE, CHUNK_MIN_SIZE } from "@obsidian-r2-sync/shared";
+
+export interface ChunkingParams {
+  minSize: number;
+  avgSize: number;
+  maxSize: number;
+}
+
+const DEFAULT_PARAMS: ChunkingParams = {
+  minSize: CHUNK_MIN_SIZE,
+  avgSize: CHUNK_AVG_SIZE,
+  maxSize: CHUNK_MAX_SIZE,
+};
+
+/**
+ * Gear hash table for FastCDC. Generated from a fixed seed so every device
+ * cuts identical chunks — changing the seed would break deduplication
+ * against everything already uploaded.
+ */
+const GEAR = (() => {
+  const table = new Uint32Array(256);
+  let state = 0x2f6b_1d3c;
+  for (let i = 0; i < 256; i++) {
+    // mulberry32
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    table[i] = (t ^ (t >>> 14)) >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Split data into content-defined chunks (FastCDC with normalized chunking).
+ *
+ * Boundaries depend only on nearby content, so an edit only changes the
+ * chunks around it and the rest deduplicate against the previous upload.
+ *
+ * @returns End offset of each chunk, in order
+ */
+export function findChunkBoundaries(data: Uint8Array, params: ChunkingParams = DEFAULT_PARAMS): number[] {
+  const { maskSmall, maskLarge } = masks(params);
+
+  const ends: number[] = [];
+  let start = 0;
+  while (start < data.length) {
+    start = nextBoundary(data, start, params, maskSmall, maskLarge);
+    ends.push(start);
+  }
+  return ends;
+}
+
+/**
+ * Split a file into the same chunks as findChunkBoundaries, reading it one
+ * window at a time so a large file is never held in memory whole.
+ *
+ * @param read - Reads the bytes from `start` up to (not including) `end`
+ * @param windowSize - Bytes to read at a time, at least the maximum chunk size
+ */
+export async function* readChunks(
+  read: (start: number, end: number) => Promise<ArrayBuffer>,
+  size: number,
+  windowSize: number,
+  params: ChunkingParams = DEFAULT_PARAMS,
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  const { maskSmall, maskLarge } = masks(params);
+
+  let window = new Uint8Array(0);
+  // File offset of the window, and of the next chunk
+  let windowStart = 0;
+  let offset = 0;
+  while (offset < size) {
+    // A chunk's end depends on at most maxSize bytes from its start
+    const needed = Math.min(offset + params.maxSize, size);
+    if (windowStart + window.length < needed) {
+      const readEnd = Math.min(Math.max(needed, offset + windowSize), size);
+      const next = new Uint8Array(await read(windowStart + window.length, readEnd));
+      const rest = window.subarray(offset - windowStart);
+      window = new Uint8Array(rest.length + next.length);
+      window.set(rest);
+      window.set(next, rest.length);
+      windowStart = offset;
+    }
+
+    const start = offset - windowStart;
+    const end = nextBoundary(window, start, params, maskSmall, maskLarge);
+    yield window.slice(start, end);
+    offset = windowStart + end;
+  }
+}
+
+function masks(params: ChunkingParams): { maskSmall: number; maskLarge: number } {
+  const bits = Math.round(Math.log2(params.avgSize));
+  // Harder to match before the average size, easier after it
+  return { maskSmall: highBitsMask(bits + 2), maskLarge: highBitsMask(bits - 2) };
+}
+
+function nextBoundary(
+  data: Uint8Array,
+  start: number,
+  params: ChunkingParams,
+  maskSmall: number,
+  maskLarge: number,
+): number {
+  if (data.length - start <= params.minSize) return data.length;
+
+  const max = Math.min(start + params.maxSize, data.length);
+  const normal = Math.min(start + params.avgSize, max);
+
+  let hash = 0;
+  let i = start + params.minSize;
+  for (; i < normal; i++) {
+    hash = ((hash << 1) + GEAR[data[i]!]!) >>> 0;
+    if ((hash & maskSmall) === 0) return i + 1;
+  }
+  for (; i < max; i++) {
+    hash = ((hash << 1) + GEAR[data[i]!]!) >>> 0;
+    if ((hash & maskLarge) === 0) return i + 1;
+  }
+  return max;
+}
+
+/** Mask of the top `bits` bits — the high bits of the gear hash mix in the most bytes */
+function highBitsMask(bits: number): number {
+  return (0xffffffff << (32 - bits)) >>> 0;
+}
+
+/**
+ * Encode the chunk list stored under a chunked file's path.
+ */
+export function encodeChunkList(chunks: ChunkRef[]): Uint8Array {
+  return new TextEncoder().encode(CHUNK_LIST_MAGIC + JSON.stringify(chunks));
+}
+
+/**
+ * Decode a chunk list, or return null if the content isn't a valid one.
+ */
+export function decodeChunkList(content: ArrayBuffer): ChunkRef[] | null {
+  const magic = new TextEncoder().encode(CHUNK_LIST_MAGIC);
+  const bytes = new Uint8Array(content);
+  if (bytes.length < magic.length) return null;
+  for (let i = 0; i < magic.length; i++) {
+    if (bytes[i] !== magic[i]) return null;
+  }
+
+  try {
+    const chunks = JSON.parse(new TextDecoder().decode(bytes.subarray(magic.length))) as ChunkRef[];
+    return Array.isArray(chunks) ? chunks : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,250 @@
+import type { ChunkRef, EncryptionParams, FileEntry, SyncManifest, Tombstone } from "@obsidian-r2-sync/shared";
+import { ENCRYPTION_KDF_ITERATIONS } from "@obsidian-r2-sync/shared";
+
+/** Known plaintext encrypted into the manifest to verify the passphrase */
+const KEY_CHECK_PLAINTEXT = "obsidian-r2-sync key check";
+
+const IV_LENGTH = 12;
+/** AES-GCM authentication tag appended to each ciphertext */
+const TAG_LENGTH = 16;
+const SALT_LENGTH = 16;
+
+/**
+ * Client-side encryption of a vault, derived from a passphrase.
+ *
+ * File bodies use AES-GCM with a random IV. Names (paths and content
+ * hashes) use AES-GCM with an IV derived from an HMAC of the name, so the
+ * same name always encrypts to the same token — the remote manifest can
+ * still be diffed, and R2 keys stay stable, without revealing the names.
+ */
+export class VaultCipher {
+  /** Memoized name encryptions — every sync encrypts the whole manifest */
+  private names = new Map<string, string>();
+  private tokens = new Map<string, string>();
+
+  private constructor(
+    readonly passphrase: string,
+    readonly params: EncryptionParams,
+    private bodyKey: CryptoKey,
+    private nameKey: CryptoKey,
+    private macKey: CryptoKey,
+  ) {}
+
+  /**
+   * Set up encryption for a vault that has none yet: pick a fresh salt
+   * and record a key check so other devices can verify their passphrase.
+   */
+  static async create(passphrase: string, iterations = ENCRYPTION_KDF_ITERATIONS): Promise<VaultCipher> {
+    const salt = toBase64Url(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+    const draft = await VaultCipher.derive(passphrase, { version: 1, iterations, salt, check: "" });
+    const check = await draft.encryptName(KEY_CHECK_PLAINTEXT);
+    return new VaultCipher(passphrase, { ...draft.params, check }, draft.bodyKey, draft.nameKey, draft.macKey);
+  }
+
+  /**
+   * Derive the keys for an encrypted vault.
+   *
+   * @throws EncryptionError if the passphrase doesn't match the vault's key check
+   */
+  static async unlock(passphrase: string, params: EncryptionParams): Promise<VaultCipher> {
+    if (params.version !== 1) {
+      throw new EncryptionError(`Unsupported encryption version ${params.version} — update the plugin`);
+    }
+
+    const cipher = await VaultCipher.derive(passphrase, params);
+    if ((await cipher.encryptName(KEY_CHECK_PLAINTEXT)) !== params.check) {
+      throw new EncryptionError("Wrong encryption passphrase — sync stopped so nothing is overwritten");
+    }
+    return cipher;
+  }
+
+  private static async derive(passphrase: string, params: EncryptionParams): Promise<VaultCipher> {
+    const material = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveBits"],
+    );
+    const bits = new Uint8Array(
+      await crypto.subtle.deriveBits(
+        { name: "PBKDF2", hash: "SHA-256", salt: fromBase64Url(params.salt), iterations: params.iterations },
+        material,
+        3 * 256,
+      ),
+    );
+
+    const bodyKey = await crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["encrypt", "decrypt"]);
+    const nameKey = await crypto.subtle.importKey("raw", bits.slice(32, 64), "AES-GCM", false, ["encrypt", "decrypt"]);
+    const macKey = await crypto.subtle.importKey(
+      "raw",
+      bits.slice(64, 96),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+
+    return new VaultCipher(passphrase, params, bodyKey, nameKey, macKey);
+  }
+
+  /**
+   * Encrypt file content. Output is the IV followed by the ciphertext.
+   */
+  async encrypt(plaintext: ArrayBuffer): Promise<ArrayBuffer> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, this.bodyKey, plaintext);
+    return concat(iv, new Uint8Array(ciphertext)).buffer;
+  }
+
+  /**
+   * @throws EncryptionError if the content was not encrypted with this key or was tampered with
+   */
+  async decrypt(data: ArrayBuffer): Promise<ArrayBuffer> {
+    const bytes = new Uint8Array(data);
+    try {
+      return await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: bytes.slice(0, IV_LENGTH) },
+        this.bodyKey,
+        bytes.slice(IV_LENGTH),
+      );
+    } catch {
+      throw new EncryptionError("Could not decrypt file content");
+    }
+  }
+
+  /**
+   * Decrypt content uploaded in parts that were each encrypted on their own.
+   *
+   * @param partSize - Plaintext size of every part but the last
+   * @throws EncryptionError if a part was not encrypted with this key or was tampered with
+   */
+  async decryptParts(data: ArrayBuffer, partSize: number): Promise<ArrayBuffer> {
+    const encryptedSize = IV_LENGTH + partSize + TAG_LENGTH;
+    const parts: Uint8Array[] = [];
+    for (let offset = 0; offset < data.byteLength; offset += encryptedSize) {
+      parts.push(new Uint8Array(await this.decrypt(data.slice(offset, offset + encryptedSize))));
+    }
+
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.byteLength;
+    }
+    return output.buffer;
+  }
+
+  /**
+   * Deterministically encrypt a name into a URL- and path-safe token.
+   */
+  async encryptName(name: string): Promise<string> {
+    const memo = this.names.get(name);
+    if (memo !== undefined) return memo;
+
+    const plaintext = new TextEncoder().encode(name);
+    const mac = await crypto.subtle.sign("HMAC", this.macKey, plaintext);
+    const iv = new Uint8Array(mac).slice(0, IV_LENGTH);
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, this.nameKey, plaintext);
+
+    const token = toBase64Url(concat(iv, new Uint8Array(ciphertext)));
+    this.names.set(name, token);
+    this.tokens.set(token, name);
+    return token;
+  }
+
+  /**
+   * @throws EncryptionError if the token was not produced by this key
+   */
+  async decryptName(token: string): Promise<string> {
+    const memo = this.tokens.get(token);
+    if (memo !== undefined) return memo;
+
+    let name: string;
+    try {
+      const bytes = fromBase64Url(token);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: bytes.slice(0, IV_LENGTH) },
+        this.nameKey,
+        bytes.slice(IV_LENGTH),
+      );
+      name = new TextDecoder().decode(plaintext);
+    } catch {
+      throw new EncryptionError("Could not decrypt file name");
+    }
+
+    this.names.set(name, token);
+    this.tokens.set(token, name);
+    return name;
+  }
+
+  /**
+   * Encrypt the paths and hashes (including chunk hashes and tombstones)
+   * of a manifest and attach the vault's encryption parameters.
+   */
+  async encryptManifest(manifest: SyncManifest): Promise<SyncManifest> {
+    return { ...(await this.mapManifest(manifest, (name) => this.encryptName(name))), encryption: this.params };
+  }
+
+  async decryptManifest(manifest: SyncManifest): Promise<SyncManifest> {
+    return this.mapManifest(manifest, (name) => this.decryptName(name));
+  }
+
+  private async mapManifest(manifest: SyncManifest, map: (name: string) => Promise<string>): Promise<SyncManifest> {
+    const files: Record<string, FileEntry> = {};
+    for (const entry of Object.values(manifest.files)) {
+      const mapped = await this.mapEntry(entry, map);
+      files[mapped.path] = mapped;
+    }
+
+    const result: SyncManifest = { ...manifest, files };
+    if (manifest.tombstones) {
+      const tombstones: Record<string, Tombstone> = {};
+      for (const tombstone of Object.values(manifest.tombstones)) {
+        const path = await map(tombstone.path);
+        tombstones[path] = { ...tombstone, path, hash: await map(tombstone.hash) };
+      }
+      result.tombstones = tombstones;
+    }
+    return result;
+  }
+
+  private async mapEntry(entry: FileEntry, map: (name: string) => Promise<string>): Promise<FileEntry> {
+    const mapped: FileEntry = { ...entry, path: await map(entry.path), hash: await map(entry.hash) };
+    if (entry.chunks) {
+      const chunks: ChunkRef[] = [];
+      for (const chunk of entry.chunks) {
+        chunks.push({ ...chunk, hash: await map(chunk.hash) });
+      }
+      mapped.chunks = chunks;
+    }
+    return mapped;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionError";
+  }
+}
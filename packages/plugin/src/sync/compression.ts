@@ -0,0 +1,33 @@
+import type { ContentEncoding } from "@obsidian-r2-sync/shared";
+
+/** Text formats that compress well; everything else (images, PDFs, audio) already is compressed */
+const COMPRESSIBLE_EXTENSIONS = new Set([
+  "md",
+  "canvas",
+  "json",
+  "txt",
+  "csv",
+  "css",
+  "js",
+  "html",
+  "xml",
+  "svg",
+]);
+
+/**
+ * Whether a file is worth compressing before upload.
+ */
+export function isCompressible(path: string): boolean {
+  const extension = path.substring(path.lastIndexOf(".") + 1).toLowerCase();
+  return COMPRESSIBLE_EXTENSIONS.has(extension);
+}
+
+export async function compress(content: ArrayBuffer, encoding: ContentEncoding = "gzip"): Promise<ArrayBuffer> {
+  const stream = new Blob([content]).stream().pipeThrough(new CompressionStream(encoding));
+  return new Response(stream).arrayBuffer();
+}
+
+export async function decompress(content: ArrayBuffer, encoding: ContentEncoding = "gzip"): Promise<ArrayBuffer> {
+  const stream = new Blob([content]).stream().pipeThrough(new DecompressionStream(encoding));
+  return new Response(stream).arrayBuffer();
+}
@@ -1,5 +1,199 @@
+import type { ConflictEntry, DiffResult, SyncManifest } from "@obsidian-r2-sync/shared";
+import { nextRevision } from "@obsidian-r2-sync/shared";
+
 /**
  * Re-export manifest diffing from shared package.
  * Plugin-specific diff helpers can be added here.
  */
 export { diffManifests, applyDiffToManifest } from "@obsidian-r2-sync/shared";
+
+/**
+ * Return a copy of a manifest containing only the given paths (files and
+ * tombstones). Used to diff just the files touched since the last sync.
+ */
+export function restrictManifest(manifest: SyncManifest, paths: Set<string>): SyncManifest {
+  const files: SyncManifest["files"] = {};
+  for (const path of paths) {
+    const entry = manifest.files[path];
+    if (entry) files[path] = entry;
+  }
+
+  const restricted: SyncManifest = { ...manifest, files };
+  if (manifest.tombstones) {
+    restricted.tombstones = {};
+    for (const path of paths) {
+      const tombstone = manifest.tombstones[path];
+      if (tombstone) restricted.tombstones[path] = tombstone;
+    }
+  }
+  return restricted;
+}
+
+/**
+ * Paths whose entry differs between two versions of a manifest.
+ */
+export function changedBetween(before: SyncManifest, after: SyncManifest): Set<string> {
+  const paths = new Set<string>();
+  for (const path of new Set([...Object.keys(before.files), ...Object.keys(after.files)])) {
+    if (JSON.stringify(before.files[path]) !== JSON.stringify(after.files[path])) {
+      paths.add(path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Build the next base manifest after a sync that only covered some paths.
+ *
+ * Paths in `paths` take their state from `synced` (the manifest just
+ * pushed); every other path keeps its previous base entry, since it was
+ * not reconciled in this cycle.
+ */
+export function updateBaseForPaths(
+  base: SyncManifest,
+  synced: SyncManifest,
+  paths: Set<string>,
+): SyncManifest {
+  const files = { ...base.files };
+  for (const path of paths) {
+    const entry = synced.files[path];
+    if (entry) {
+      files[path] = entry;
+    } else {
+      delete files[path];
+    }
+  }
+  return {
+    files,
+    lastUpdated: synced.lastUpdated,
+    lastUpdatedBy: synced.lastUpdatedBy,
+  };
+}
+
+/**
+ * Whether a diff deletes more files than the configured safeguard allows
+ * without explicit confirmation.
+ *
+ * @param diff      - The planned diff
+ * @param vaultSize - Number of files in the vault before the deletions
+ * @param limits    - Count and percentage thresholds (0 disables a threshold)
+ */
+export function exceedsDeleteThreshold(
+  diff: DiffResult,
+  vaultSize: number,
+  limits: { count: number; percent: number },
+): boolean {
+  const deletions = diff.toDeleteLocal.length + diff.toDeleteRemote.length;
+  if (deletions === 0) return false;
+
+  if (limits.count > 0 && deletions > limits.count) return true;
+  if (limits.percent > 0 && (deletions / Math.max(vaultSize, 1)) * 100 > limits.percent) return true;
+  return false;
+}
+
+/**
+ * Whether a diff has nothing to apply.
+ */
+export function isDiffEmpty(diff: DiffResult): boolean {
+  return (
+    diff.toUpload.length === 0 &&
+    diff.toDownload.length === 0 &&
+    diff.toDeleteRemote.length === 0 &&
+    diff.toDeleteLocal.length === 0 &&
+    diff.toRename.length === 0 &&
+    diff.conflicts.length === 0
+  );
+}
+
+/**
+ * All vault paths a diff touches (both ends of a rename included).
+ */
+export function diffPaths(diff: DiffResult): Set<string> {
+  const paths = new Set<string>();
+  for (const entry of diff.toUpload) paths.add(entry.path);
+  for (const entry of diff.toDownload) paths.add(entry.path);
+  for (const path of diff.toDeleteRemote) paths.add(path);
+  for (const path of diff.toDeleteLocal) paths.add(path);
+  for (const conflict of diff.conflicts) paths.add(conflict.path);
+  for (const rename of diff.toRename) {
+    paths.add(rename.from);
+    paths.add(rename.to);
+  }
+  return paths;
+}
+
+/**
+ * Keep only the parts of a diff for the given paths.
+ * A rename is kept when its destination path is selected.
+ */
+export function filterDiff(diff: DiffResult, paths: Set<string>): DiffResult {
+  return {
+    toUpload: diff.toUpload.filter((entry) => paths.has(entry.path)),
+    toDownload: diff.toDownload.filter((entry) => paths.has(entry.path)),
+    toDeleteRemote: diff.toDeleteRemote.filter((path) => paths.has(path)),
+    toDeleteLocal: diff.toDeleteLocal.filter((path) => paths.has(path)),
+    conflicts: diff.conflicts.filter((conflict) => paths.has(conflict.path)),
+    toRename: diff.toRename.filter((rename) => paths.has(rename.to)),
+  };
+}
+
+/**
+ * Keep only the parts of a diff that bring remote changes into the vault:
+ * downloads, local deletions and renames made on other devices. Used for
+ * read-only tokens. Conflicts are left out too, so local edits are never
+ * overwritten — they just stay on this device.
+ */
+export function pullOnly(diff: DiffResult): DiffResult {
+  return {
+    toUpload: [],
+    toDownload: diff.toDownload,
+    toDeleteRemote: [],
+    toDeleteLocal: diff.toDeleteLocal,
+    conflicts: [],
+    toRename: diff.toRename.filter((rename) => rename.target === "local"),
+  };
+}
+
+/**
+ * Give every entry this device wrote a new revision, in place. Entries
+ * taken from the remote unchanged (downloads, kept remote versions) keep
+ * the remote's revision.
+ */
+export function assignRevisions(updated: SyncManifest, remote: SyncManifest, base: SyncManifest | null): void {
+  for (const [path, entry] of Object.entries(updated.files)) {
+    const remoteEntry = remote.files[path];
+    if (remoteEntry && remoteEntry.hash === entry.hash) {
+      if (entry.rev !== remoteEntry.rev) {
+        updated.files[path] = { ...entry, rev: remoteEntry.rev };
+      }
+      continue;
+    }
+    updated.files[path] = { ...entry, rev: nextRevision(path, remote, base) };
+  }
+}
+
+/**
+ * One-sentence explanation of a conflict for the user.
+ */
+export function describeConflict(conflict: ConflictEntry): string {
+  const other = conflict.remote.lastModifiedBy;
+  const revisions = conflict.baseRev !== undefined && conflict.remote.rev !== undefined
+    ? ` (last synced revision ${conflict.baseRev}, remote is now at ${conflict.remote.rev})`
+    : "";
+
+  switch (conflict.reason) {
+    case "both-modified":
+      return `Changed on this device and on ${other} since the last sync${revisions}.`;
+    case "both-created":
+      return `Created on this device and on ${other} with different content.`;
+    case "deleted-remotely":
+      return `Changed on this device, but deleted on another device.`;
+    case "deleted-locally":
+      return `Deleted on this device, but changed on ${other}${revisions}.`;
+    case "no-base":
+      return `Differs from the remote copy, and this device has no previous sync to tell which is newer.`;
+    case "stale-base":
+      return `The remote copy is not a later version of what this device last synced${revisions} — ` +
+        `it may have been restored from an older copy.`;
+  }
+}
@@ -1,21 +1,82 @@
-import { requestUrl, type App, type TFile } from "obsidian";
+import { FileSystemAdapter, TFile, type App, type RequestUrlResponse } from "obsidian";
 import type {
+  ChunkRef,
   ConflictEntry,
+  ContentEncoding,
   DiffResult,
   FileEntry,
+  RenameEntry,
   SyncManifest,
+  TokenScope,
+  TrashEntry,
+  VersionEntry,
+} from "@obsidian-r2-sync/shared";
+import {
+  CHUNKING_THRESHOLD,
+  FULL_SCOPE,
+  STREAMING_THRESHOLD,
+  STREAMING_WINDOW_SIZE,
+  diffManifests,
+  isPathInScope,
+  parseTokenScope,
 } from "@obsidian-r2-sync/shared";
-import { diffManifests } from "@obsidian-r2-sync/shared";
 import type { ApiClient } from "../api/client.js";
 import { ManifestConflictError } from "../api/client.js";
 import type R2SyncPlugin from "../main.js";
+import {
+  assignRevisions,
+  changedBetween,
+  diffPaths,
+  exceedsDeleteThreshold,
+  filterDiff,
+  isDiffEmpty,
+  pullOnly,
+  restrictManifest,
+  updateBaseForPaths,
+} from "./differ.js";
 import { TransferQueue } from "./queue.js";
-import { threeWayMerge } from "./merger.js";
+import type { ReportBytes } from "./queue.js";
+import { ProgressTracker } from "./progress.js";
+import { isMergeable, threeWayMerge } from "./merger.js";
+import { BaseStore } from "./base-store.js";
+import { RemoteManifest } from "./remote-manifest.js";
+import { changedPaths, changesExcept, SyncJournal } from "./journal.js";
+import type { CycleChanges, ResolvedConflict } from "./journal.js";
+import { EncryptionError, VaultCipher } from "./cipher.js";
+import { decodeChunkList, encodeChunkList, findChunkBoundaries, readChunks } from "./chunker.js";
+import { compress, decompress, isCompressible } from "./compression.js";
+import { FileRangeReader, UrlRangeReader } from "./range-reader.js";
+import type { RangeReader } from "./range-reader.js";
 import { ConflictModal } from "../ui/conflict-modal.js";
 import type { ConflictResolution } from "../ui/conflict-modal.js";
+import { DeleteConfirmModal } from "../ui/delete-confirm-modal.js";
 
 const MAX_RETRIES = 3;
 
+/**
+ * Result of the read-only planning steps of a sync cycle (1–3).
+ * Can be shown to the user before anything is changed, then applied.
+ */
+export interface SyncPlan {
+  localManifest: SyncManifest;
+  remoteManifest: SyncManifest;
+  /** ETag of the remote manifest the plan was computed against */
+  etag: string | null;
+  baseManifest: SyncManifest | null;
+  diff: DiffResult;
+  /** Cipher for an encrypted vault; null for a plaintext one */
+  cipher: VaultCipher | null;
+  /** Paths the cycle is restricted to, if it is scoped */
+  scope?: Set<string>;
+}
+
+export interface ApplyOptions {
+  /** Only apply the changes for these paths (selective apply) */
+  selection?: Set<string>;
+  /** The user already reviewed the deletions, so skip the mass-deletion safeguard */
+  deletionsConfirmed?: boolean;
+}
+
 /**
  * Orchestrates the full sync cycle:
  * 1. Build local manifest from vault
@@ -25,24 +86,62 @@ const MAX_RETRIES = 3;
  * 5. Upload/download files (concurrent via TransferQueue)
  * 6. Update remote manifest
  * 7. Save base manifest locally
+ *
+ * When an encryption passphrase is set, everything leaving the device —
+ * file bodies, and the paths and hashes in the manifest — is encrypted,
+ * and the remote manifest is decrypted right after it is fetched.
+ *
+ * A cycle can also be scoped to a set of paths (e.g. files touched by
+ * vault events), in which case only those paths are hashed, diffed and
+ * transferred, and the base manifest is only advanced for them.
+ *
+ * Cycles also keep to the scope of the device's token: files outside its
+ * folders are left out, and a read-only device only pulls remote changes.
  */
 export class SyncEngine {
   private transferQueue: TransferQueue;
+  private progress: ProgressTracker;
+  private baseStore: BaseStore;
+  private remoteManifest: RemoteManifest;
+  private journal: SyncJournal;
+  /** Cipher used by the current operation; null for a plaintext vault */
+  private cipher: VaultCipher | null = null;
+  /** Set by cancel() — checked between steps and after the transfers */
+  private cancelRequested = false;
+  /** Derived keys are cached across cycles — key derivation is deliberately slow */
+  private cachedCipher: VaultCipher | null = null;
 
   constructor(
     private app: App,
     private api: ApiClient,
     private plugin: R2SyncPlugin,
   ) {
-    this.transferQueue = new TransferQueue();
+    this.progress = new ProgressTracker((progress) => plugin.reportProgress(progress));
+    this.transferQueue = new TransferQueue(
+      undefined,
+      (size) => this.progress.advance(size),
+      (bytes) => this.progress.addBytes(bytes),
+    );
+    this.baseStore = new BaseStore(app.vault.adapter, `${plugin.pluginDir}/base`);
+    this.remoteManifest = new RemoteManifest(api, new BaseStore(app.vault.adapter, `${plugin.pluginDir}/shards`));
+    this.journal = new SyncJournal(app.vault.adapter, `${plugin.pluginDir}/journal.jsonl`);
   }
 
-  async sync(forceFullSync = false): Promise<void> {
+  /**
+   * Run a sync cycle, retrying on manifest conflicts.
+   *
+   * @param forceFullSync - Ignore the base manifest and re-hash every file
+   * @param paths         - Only sync these vault paths (ignored without a base manifest)
+   */
+  async sync(forceFullSync = false, paths?: string[]): Promise<void> {
     let retries = 0;
 
+    // A scoped sync needs a base to tell local from remote changes
+    const scope = paths && !forceFullSync && this.plugin.baseManifest ? new Set(paths) : undefined;
+
     while (retries < MAX_RETRIES) {
       try {
-        await this.executeSyncCycle(forceFullSync);
+        await this.executeSyncCycle(forceFullSync, scope);
         return;
       } catch (error) {
         if (error instanceof ManifestConflictError && retries < MAX_RETRIES - 1) {
@@ -55,53 +154,246 @@ export class SyncEngine {
     }
   }
 
-  private async executeSyncCycle(forceFullSync: boolean): Promise<void> {
-    // Step 1: Build local manifest
-    const localManifest = await this.buildLocalManifest();
+  private async executeSyncCycle(forceFullSync: boolean, scope?: Set<string>): Promise<void> {
+    await this.resumeInterrupted();
+    const plan = await this.plan(forceFullSync, scope);
+    await this.applyPlan(plan);
+  }
 
-    // Step 2: Fetch remote manifest
-    const { manifest: remoteManifest, etag } = await this.api.getManifest();
+  /**
+   * Steps 1–3 of a sync cycle: build the local manifest, fetch the remote
+   * manifest and diff them. Changes nothing locally or remotely.
+   */
+  async plan(forceFullSync = false, scope?: Set<string>): Promise<SyncPlan> {
+    // Step 1: Build local manifest (a forced full sync also re-hashes every file)
+    const localManifest = await this.buildLocalManifest(forceFullSync, scope);
 
-    // Step 3: Diff
+    // Step 2: Fetch remote manifest (and decrypt it, for an encrypted vault)
+    const { manifest: storedManifest, etag } = await this.remoteManifest.get(this.tokenScope);
+    const cipher = await this.resolveCipher(storedManifest);
+    const remoteManifest = cipher ? await cipher.decryptManifest(storedManifest) : storedManifest;
+
+    // Step 3: Diff (restricted to the scoped paths, if any)
     const baseManifest = forceFullSync ? null : this.plugin.baseManifest;
-    const diff = diffManifests(localManifest, remoteManifest, baseManifest);
+    const diff = scope
+      ? diffManifests(
+        localManifest,
+        restrictManifest(remoteManifest, scope),
+        baseManifest && restrictManifest(baseManifest, scope),
+      )
+      : diffManifests(localManifest, remoteManifest, baseManifest);
+
+    // A read-only device keeps its local changes to itself, so the base is
+    // only advanced for what it pulled — the rest stays pending as before
+    if (this.tokenScope.readOnly) {
+      const pulled = pullOnly(diff);
+      return { localManifest, remoteManifest, etag, baseManifest, diff: pulled, scope: diffPaths(pulled), cipher };
+    }
+
+    return { localManifest, remoteManifest, etag, baseManifest, diff, scope, cipher };
+  }
+
+  /**
+   * Steps 4+ of a sync cycle: resolve conflicts, transfer files, push the
+   * updated manifest and save the new base.
+   *
+   * @param plan    - Plan from {@link plan}
+   * @param options - Selective apply and safeguard overrides
+   * @throws ManifestConflictError if another device changed a path this cycle also changed
+   * @throws SyncAbortedError if the user declined a mass deletion
+   * @throws SyncCancelledError if the cycle was cancelled
+   */
+  async applyPlan(plan: SyncPlan, options: ApplyOptions = {}): Promise<void> {
+    const { remoteManifest, baseManifest } = plan;
+    const { selection } = options;
+    this.cipher = plan.cipher;
+    const diff = selection ? filterDiff(plan.diff, selection) : plan.diff;
+    // Paths reconciled by this cycle — the base is only advanced for these
+    const scope = selection ? diffPaths(diff) : plan.scope;
 
     // Step 4: Check if anything to do
-    if (this.isDiffEmpty(diff)) {
+    if (isDiffEmpty(diff)) {
       console.log("R2 Sync: Everything up to date");
+      await this.updateBaseStore(remoteManifest);
+      if (this.plugin.hashCache.dirty) {
+        await this.plugin.saveSettings();
+      }
       return;
     }
 
     console.log(
       `R2 Sync: ${diff.toUpload.length} uploads, ${diff.toDownload.length} downloads, ` +
       `${diff.toDeleteRemote.length} remote deletes, ${diff.toDeleteLocal.length} local deletes, ` +
-      `${diff.conflicts.length} conflicts`,
+      `${diff.toRename.length} renames, ${diff.conflicts.length} conflicts`,
     );
 
-    // Step 5: Resolve conflicts
+    // Step 4b: Ask before deleting an unusual number of files
+    if (!options.deletionsConfirmed && this.exceedsDeleteThreshold(plan, diff)) {
+      const confirmed = await new DeleteConfirmModal(
+        this.app,
+        diff.toDeleteLocal,
+        diff.toDeleteRemote,
+      ).waitForConfirmation();
+      if (!confirmed) {
+        throw new SyncAbortedError(
+          `${diff.toDeleteLocal.length + diff.toDeleteRemote.length} deletions were not confirmed`,
+        );
+      }
+    }
+
+    // Step 5: Resolve conflicts (from here on, completed changes are journaled)
+    this.throwIfCancelled();
+    const planned = diffPaths(diff);
+    await this.journal.begin({
+      startedAt: new Date().toISOString(),
+      // Only the planned paths — the whole manifest would be rewritten on every
+      // cycle, and would put every decrypted name of an encrypted vault on disk
+      remoteManifest: restrictManifest(remoteManifest, planned),
+      etag: plan.etag,
+      planned: [...planned],
+    });
     const resolvedConflicts = await this.resolveConflicts(diff.conflicts, baseManifest);
 
     // Step 6: Download files (concurrent)
-    const downloadPromises = diff.toDownload.map((entry) =>
-      this.transferQueue.enqueue(() => this.downloadFile(entry)),
+    this.progress.start("downloading", diff.toDownload.length, totalSize(diff.toDownload));
+    // Chunked files are assembled from their chunks instead
+    this.api.expectDownloads(
+      await Promise.all(diff.toDownload.filter((entry) => !entry.chunks).map((entry) => this.remotePath(entry.path))),
     );
-    await Promise.all(downloadPromises);
+    // Content that doesn't match its manifest hash doesn't fail the cycle: the
+    // path is left pending (its base isn't advanced) and is tried again next cycle
+    const corrupt: string[] = [];
+    const downloaded = (await this.transfer(diff.toDownload, async (entry, reportBytes) => {
+      try {
+        await this.downloadFile(entry, reportBytes);
+      } catch (error) {
+        if (!(error instanceof IntegrityError)) throw error;
+        console.warn(`R2 Sync: ${error.message}`);
+        corrupt.push(entry.path);
+        return null;
+      }
+      await this.journal.record({ type: "downloaded", entry });
+      return entry;
+    })).filter((entry): entry is FileEntry => entry !== null);
+    this.api.expectDownloads([]);
 
     // Step 7: Upload files (concurrent)
-    const uploadPromises = diff.toUpload.map((entry) =>
-      this.transferQueue.enqueue(() => this.uploadFile(entry)),
-    );
-    await Promise.all(uploadPromises);
+    this.progress.start("uploading", diff.toUpload.length, totalSize(diff.toUpload));
+    const uploaded = await this.transfer(diff.toUpload, async (entry, reportBytes) => {
+      const stored = await this.uploadFile(entry, reportBytes);
+      await this.journal.record({ type: "uploaded", entry: stored });
+      return stored;
+    });
+
+    this.progress.start("finalizing", 0);
+
+    // Cancelled: record only what was transferred, so the next cycle picks up from there.
+    // Past this point the cycle is finished regardless — the remaining steps are quick.
+    if (this.cancelRequested) {
+      const completed = changedPaths({ uploaded, downloaded, resolvedConflicts });
+      await this.commit(plan, { uploaded, downloaded, resolvedConflicts }, completed);
+      throw new SyncCancelledError(
+        `${completed.size} of ${diff.toDownload.length + diff.toUpload.length + diff.conflicts.length} ` +
+        `files were synced before the sync was cancelled`,
+      );
+    }
+
+    // Step 7b: Apply renames without transferring content again
+    const renamed = await this.applyRenames(diff.toRename, remoteManifest);
+    for (const rename of renamed) {
+      await this.journal.record({ type: "renamed", rename });
+    }
 
     // Step 8: Delete remote files
     if (diff.toDeleteRemote.length > 0) {
-      await this.api.deleteFiles(diff.toDeleteRemote);
+      await this.api.deleteFiles(await Promise.all(diff.toDeleteRemote.map((path) => this.remotePath(path))));
+      await this.journal.record({ type: "deleted-remote", paths: diff.toDeleteRemote });
     }
 
     // Step 9: Delete local files
     for (const path of diff.toDeleteLocal) {
       await this.deleteLocalFile(path);
+      await this.journal.record({ type: "deleted-local", path });
+    }
+
+    // Steps 10–11
+    await this.commit(
+      plan,
+      { uploaded, downloaded, resolvedConflicts, renamed, deletedRemote: diff.toDeleteRemote },
+      withoutPending(plan, scope, corrupt),
+    );
+  }
+
+  /** Whether a cycle was interrupted before it recorded its changes */
+  async hasInterruptedSync(): Promise<boolean> {
+    return (await this.journal.read()) !== null;
+  }
+
+  /**
+   * Record the changes of a cycle that was interrupted (e.g. by a crash or
+   * by closing Obsidian) before it updated the remote manifest and the base,
+   * so the next cycle doesn't see them as conflicts.
+   *
+   * @returns Whether there was an interrupted cycle
+   */
+  async resumeInterrupted(): Promise<boolean> {
+    const interrupted = await this.journal.read();
+    if (!interrupted) {
+      await this.journal.clear();
+      return false;
+    }
+
+    const { header, changes } = interrupted;
+    console.log(`R2 Sync: Resuming an interrupted sync from ${header.startedAt}`);
+
+    // The journal holds the decrypted remote manifest; the cipher is still needed to write
+    const { manifest } = await this.remoteManifest.get(this.tokenScope);
+    this.cipher = await this.resolveCipher(manifest);
+
+    const plan = { remoteManifest: header.remoteManifest, etag: header.etag, baseManifest: this.plugin.baseManifest };
+    try {
+      await this.commit(plan, changes, changedPaths(changes));
+    } catch (error) {
+      if (!(error instanceof ManifestConflictError)) throw error;
+
+      // Another device has changed some of these paths since. Record the changes
+      // to the other paths on top of the current remote manifest — uploads too,
+      // since their objects are already in R2 — and leave the rest to the next cycle.
+      const { manifest: stored, etag } = await this.remoteManifest.get(this.tokenScope);
+      const current = this.cipher ? await this.cipher.decryptManifest(stored) : stored;
+      const touched = changedBetween(header.remoteManifest, restrictManifest(current, new Set(header.planned)));
+      const untouched = changesExcept(changes, touched);
+      await this.commit(
+        { remoteManifest: current, etag, baseManifest: this.plugin.baseManifest },
+        untouched,
+        changedPaths(untouched),
+      );
+
+      // Files downloaded or deleted here still match the remote they came from,
+      // which the base records without writing to the remote manifest
+      const local = {
+        uploaded: [],
+        downloaded: changes.downloaded.filter((entry) => touched.has(entry.path)),
+        resolvedConflicts: [],
+        deletedLocal: changes.deletedLocal.filter((path) => touched.has(path)),
+      };
+      const base = { remoteManifest: header.remoteManifest, etag: this.plugin.lastEtag, baseManifest: this.plugin.baseManifest };
+      await this.commit(base, local, changedPaths(local));
     }
+    return true;
+  }
+
+  /**
+   * Steps 10–11: push the changes to the remote manifest and save the new base.
+   *
+   * @param scope - Only advance the base for these paths
+   */
+  private async commit(
+    plan: Pick<SyncPlan, "remoteManifest" | "etag" | "baseManifest">,
+    changes: CycleChanges,
+    scope?: Set<string>,
+  ): Promise<void> {
+    const { remoteManifest, etag, baseManifest } = plan;
 
     // Step 10: Build updated manifest and push
     const updatedManifest: SyncManifest = {
@@ -110,13 +402,13 @@ export class SyncEngine {
       lastUpdatedBy: this.plugin.deviceId,
     };
 
-    // Apply uploads
-    for (const entry of diff.toUpload) {
+    // Apply uploads (as stored, e.g. with their chunk lists)
+    for (const entry of changes.uploaded) {
       updatedManifest.files[entry.path] = entry;
     }
 
     // Apply resolved conflicts
-    for (const resolved of resolvedConflicts) {
+    for (const resolved of changes.resolvedConflicts) {
       if (resolved.action === "deleted") {
         delete updatedManifest.files[resolved.path];
       } else {
@@ -125,23 +417,192 @@ export class SyncEngine {
     }
 
     // Apply remote deletions
-    for (const path of diff.toDeleteRemote) {
+    for (const path of changes.deletedRemote ?? []) {
       delete updatedManifest.files[path];
     }
 
     // Apply downloaded files to manifest
-    for (const entry of diff.toDownload) {
+    for (const entry of changes.downloaded) {
       updatedManifest.files[entry.path] = entry;
     }
 
-    const { etag: newEtag } = await this.api.putManifest(updatedManifest, etag);
+    // Apply renames
+    for (const rename of changes.renamed ?? []) {
+      delete updatedManifest.files[rename.from];
+      updatedManifest.files[rename.to] = rename.entry;
+    }
+
+    // Every entry this device wrote gets the next revision of its path
+    assignRevisions(updatedManifest, remoteManifest, baseManifest);
+
+    // Only the paths this cycle changed are sent, so concurrent syncs of
+    // other paths on other devices don't conflict
+    const written = this.cipher
+      ? await this.remoteManifest.patch(
+        await this.cipher.encryptManifest(remoteManifest),
+        await this.cipher.encryptManifest(updatedManifest),
+      )
+      : await this.remoteManifest.patch(remoteManifest, updatedManifest);
+    const newEtag = written?.etag ?? etag;
 
-    // Step 11: Save base manifest locally
-    this.plugin.baseManifest = updatedManifest;
+    // The remote now records the cycle. Replaying the journal from here would
+    // be harmless (patches that are already applied succeed), but is no longer needed.
+    await this.journal.clear();
+
+    // Step 11: Save base manifest (and base contents for future merges) locally
+    this.plugin.baseManifest = scope
+      ? updateBaseForPaths(baseManifest ?? { ...updatedManifest, files: {} }, updatedManifest, scope)
+      : updatedManifest;
     this.plugin.lastEtag = newEtag;
+    // The manifest written may hold only the journaled paths — keep the merge bases of the whole base
+    await this.updateBaseStore(this.plugin.baseManifest);
     await this.plugin.saveSettings();
   }
 
+  /**
+   * Run transfers through the queue and wait for all of them to settle.
+   * After a cancellation, returns the results of the transfers that completed.
+   *
+   * @throws the first transfer error, unless the cycle was cancelled
+   */
+  private async transfer<T>(
+    entries: FileEntry[],
+    task: (entry: FileEntry, reportBytes: ReportBytes) => Promise<T>,
+  ): Promise<T[]> {
+    if (this.cancelRequested) return [];
+
+    const results = await Promise.allSettled(
+      entries.map((entry) => this.transferQueue.enqueue((reportBytes) => task(entry, reportBytes), entry.size)),
+    );
+
+    const completed: T[] = [];
+    let failure: unknown = null;
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        completed.push(result.value);
+      } else {
+        failure ??= result.reason;
+      }
+    }
+    if (failure !== null && !this.cancelRequested) throw failure;
+    return completed;
+  }
+
+  /**
+   * Stop the running sync cycle as soon as it is safe to.
+   *
+   * Transfers that haven't started are dropped; requests already in flight
+   * can't be aborted and are left to finish. Files transferred so far are
+   * recorded in the remote manifest and the base, so the vault, the remote
+   * and the base stay consistent and the next cycle resumes from there.
+   */
+  cancel(): void {
+    this.cancelRequested = true;
+    this.transferQueue.cancelPending(new SyncCancelledError("Transfer cancelled"));
+  }
+
+  /** Reset a cancellation before starting a new operation */
+  clearCancellation(): void {
+    this.cancelRequested = false;
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelRequested) {
+      throw new SyncCancelledError("nothing was changed");
+    }
+  }
+
+  private exceedsDeleteThreshold(plan: SyncPlan, diff: DiffResult): boolean {
+    // Size of the vault before the deletions — the local manifest is partial for scoped cycles
+    const vaultSize = Math.max(
+      Object.keys(plan.remoteManifest.files).length,
+      Object.keys(plan.baseManifest?.files ?? {}).length,
+      plan.scope ? 0 : Object.keys(plan.localManifest.files).length,
+    );
+    return exceedsDeleteThreshold(diff, vaultSize, {
+      count: this.plugin.settings.deleteThresholdCount,
+      percent: this.plugin.settings.deleteThresholdPercent,
+    });
+  }
+
+  /**
+   * Keep the contents of mergeable files as of this sync, so the next
+   * conflict on them has a real common ancestor. Only files whose local
+   * content is known to match the manifest hash are stored.
+   */
+  private async updateBaseStore(manifest: SyncManifest): Promise<void> {
+    const keep = new Set<string>();
+
+    for (const entry of Object.values(manifest.files)) {
+      if (!isMergeable(entry.path)) continue;
+      keep.add(entry.hash);
+      if (await this.baseStore.has(entry.hash)) continue;
+
+      const file = this.app.vault.getAbstractFileByPath(entry.path) as TFile | null;
+      if (!file?.stat) continue;
+      const cachedHash = this.plugin.hashCache.get(file.path, file.stat.mtime, file.stat.size);
+      if (cachedHash !== entry.hash) continue;
+
+      try {
+        await this.baseStore.put(entry.hash, await this.app.vault.read(file));
+      } catch (error) {
+        console.warn(`R2 Sync: Could not store merge base for ${entry.path}`, error);
+      }
+    }
+
+    await this.baseStore.prune(keep);
+  }
+
+  /**
+   * Apply detected renames: remote ones as a server-side move in R2,
+   * local ones as a move in the vault. Falls back to a normal transfer
+   * when the source is gone.
+   *
+   * @returns The renames with the entries as stored
+   */
+  private async applyRenames(renames: RenameEntry[], remoteManifest: SyncManifest): Promise<RenameEntry[]> {
+    if (renames.length === 0) return [];
+
+    let remoteRenames = renames.filter((r) => r.target === "remote");
+    const localRenames = renames.filter((r) => r.target === "local");
+
+    if (remoteRenames.length > 0) {
+      const moves = await Promise.all(
+        remoteRenames.map(async ({ from, to }) => ({
+          from: await this.remotePath(from),
+          to: await this.remotePath(to),
+        })),
+      );
+      const { missing } = await this.api.renameFiles(moves);
+      const missingSet = new Set(missing);
+      remoteRenames = await Promise.all(
+        remoteRenames.map(async (r, i) => {
+          if (missingSet.has(moves[i]!.from)) {
+            return { ...r, entry: await this.transferQueue.enqueue(() => this.uploadFile(r.entry)) };
+          }
+          // The moved object keeps the storage format (chunk list, encoding) it was uploaded with
+          const moved = remoteManifest.files[r.from];
+          return { ...r, entry: { ...r.entry, chunks: moved?.chunks, encoding: moved?.encoding } };
+        }),
+      );
+    }
+
+    for (const rename of localRenames) {
+      const file = this.app.vault.getAbstractFileByPath(rename.from);
+      if (!(file instanceof TFile)) {
+        await this.transferQueue.enqueue(() => this.downloadFile(rename.entry));
+        continue;
+      }
+
+      await this.ensureParentFolder(rename.to);
+      // vault.rename (not fileManager.renameFile): link updates arrive as their own synced edits
+      await this.app.vault.rename(file, rename.to);
+      this.plugin.hashCache.set(file.path, file.stat.mtime, file.stat.size, rename.entry.hash);
+    }
+
+    return [...remoteRenames, ...localRenames];
+  }
+
   /**
    * Resolve conflicts based on the configured strategy.
    */
@@ -155,6 +616,9 @@ export class SyncEngine {
     const strategy = this.plugin.settings.conflictStrategy;
 
     for (const conflict of conflicts) {
+      // The conflicts resolved so far are kept
+      if (this.cancelRequested) break;
+
       let resolution: ConflictResolution;
 
       if (strategy === "keep-local") {
@@ -169,6 +633,7 @@ export class SyncEngine {
       }
 
       const result = await this.applyConflictResolution(conflict, resolution, baseManifest);
+      await this.journal.record({ type: "resolved", conflict: result });
       resolved.push(result);
     }
 
@@ -188,9 +653,9 @@ export class SyncEngine {
     // Download remote content for display
     let remoteContent: string;
     try {
-      const { url } = await this.api.getDownloadUrl(conflict.path);
-      const response = await requestUrl({ url, method: "GET" });
-      remoteContent = response.text;
+      remoteContent = new TextDecoder().decode(
+        await this.downloadContent(conflict.path, conflict.remote),
+      );
     } catch {
       remoteContent = "(could not fetch remote content)";
     }
@@ -207,12 +672,12 @@ export class SyncEngine {
     resolution: ConflictResolution,
     baseManifest: SyncManifest | null,
   ): Promise<ResolvedConflict> {
-    const isMdFile = conflict.path.endsWith(".md");
+    const isMdFile = isMergeable(conflict.path);
 
     if (resolution === "keep-local") {
       // Upload local version
-      await this.uploadFile(conflict.local);
-      return { path: conflict.path, action: "uploaded", entry: conflict.local };
+      const stored = await this.uploadFile(conflict.local);
+      return { path: conflict.path, action: "uploaded", entry: stored };
     }
 
     if (resolution === "keep-remote") {
@@ -239,17 +704,19 @@ export class SyncEngine {
     const localContent = await this.app.vault.read(localFile as TFile);
 
     // Get remote content
-    const { url } = await this.api.getDownloadUrl(conflict.path);
-    const remoteResponse = await requestUrl({ url, method: "GET" });
-    const remoteContent = remoteResponse.text;
+    const remoteContent = new TextDecoder().decode(
+      await this.downloadContent(conflict.path, conflict.remote),
+    );
 
-    // Get base content if available
+    // Get base content from the local base store (kept from the last successful sync)
     let baseContent = "";
     if (conflict.baseHash && baseManifest) {
-      // We don't store base content — use empty string as fallback
-      // A proper implementation would cache base versions locally
-      // For now, treat it as a two-way merge (empty base)
-      baseContent = "";
+      const stored = await this.baseStore.get(conflict.baseHash);
+      if (stored !== null) {
+        baseContent = stored;
+      } else {
+        console.warn(`R2 Sync: No stored base for ${conflict.path}, merging without a common ancestor`);
+      }
     }
 
     const mergeResult = threeWayMerge(baseContent, localContent, remoteContent);
@@ -258,12 +725,18 @@ export class SyncEngine {
     await this.app.vault.modify(localFile as TFile, mergeResult.content);
 
     if (!mergeResult.clean) {
-      console.warn(`R2 Sync: Merge of ${conflict.path} has conflict markers — manual review needed`);
+      const lines = mergeResult.conflicts.map((c) => c.startLine).join(", ");
+      console.warn(
+        `R2 Sync: Merge of ${conflict.path} has ${mergeResult.conflicts.length} conflicting ` +
+        `hunk(s) at line(s) ${lines} — manual review needed`,
+      );
     }
 
     // Build updated entry
     const mergedContent = new TextEncoder().encode(mergeResult.content);
     const hash = await this.hashContent(mergedContent.buffer as ArrayBuffer);
+    const mergedFile = localFile as TFile;
+    this.plugin.hashCache.set(mergedFile.path, mergedFile.stat.mtime, mergedFile.stat.size, hash);
     const updatedEntry: FileEntry = {
       path: conflict.path,
       hash,
@@ -273,20 +746,35 @@ export class SyncEngine {
     };
 
     // Upload the merged version
-    await this.uploadFile(updatedEntry);
+    const stored = await this.uploadFile(updatedEntry);
 
-    return { path: conflict.path, action: "uploaded", entry: updatedEntry };
+    return { path: conflict.path, action: "uploaded", entry: stored };
   }
 
-  private async buildLocalManifest(): Promise<SyncManifest> {
+  /**
+   * Build a manifest of the local vault, or of just the scoped paths.
+   * Files whose mtime and size match the hash cache are not re-read.
+   */
+  private async buildLocalManifest(forceRehash = false, scope?: Set<string>): Promise<SyncManifest> {
     const files: Record<string, FileEntry> = {};
-    const allFiles = this.app.vault.getFiles();
+    const tokenScope = this.tokenScope;
+    const allFiles = (scope ? this.getScopedFiles(scope) : this.app.vault.getFiles())
+      .filter((file) => !this.isExcluded(file.path) && isPathInScope(tokenScope, file.path));
+    const cache = this.plugin.hashCache;
 
-    for (const file of allFiles) {
-      if (this.isExcluded(file.path)) continue;
+    if (forceRehash) {
+      cache.clear();
+    }
 
-      const content = await this.app.vault.readBinary(file);
-      const hash = await this.hashContent(content);
+    this.progress.start("comparing", allFiles.length);
+    for (const file of allFiles) {
+      this.throwIfCancelled();
+      let hash = cache.get(file.path, file.stat.mtime, file.stat.size);
+      if (hash === null) {
+        const content = await this.app.vault.readBinary(file);
+        hash = await this.hashContent(content);
+        cache.set(file.path, file.stat.mtime, file.stat.size, hash);
+      }
 
       files[file.path] = {
         path: file.path,
@@ -295,6 +783,11 @@ export class SyncEngine {
         size: file.stat.size,
         lastModifiedBy: this.plugin.deviceId,
       };
+      this.progress.advance();
+    }
+
+    if (!scope) {
+      cache.prune(new Set(Object.keys(files)));
     }
 
     return {
@@ -304,6 +797,20 @@ export class SyncEngine {
     };
   }
 
+  private getScopedFiles(scope: Set<string>): TFile[] {
+    const files: TFile[] = [];
+    for (const path of scope) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) files.push(file);
+    }
+    return files;
+  }
+
+  /** What the device's token allows — the worker rejects anything else */
+  private get tokenScope(): TokenScope {
+    return parseTokenScope(this.plugin.settings.token) ?? FULL_SCOPE;
+  }
+
   private isExcluded(path: string): boolean {
     return this.plugin.settings.excludePatterns.some((pattern) => {
       const regex = new RegExp(
@@ -318,69 +825,484 @@ export class SyncEngine {
     });
   }
 
-  private async hashContent(content: ArrayBuffer): Promise<string> {
+  private async hashContent(content: BufferSource): Promise<string> {
     const hashBuffer = await crypto.subtle.digest("SHA-256", content);
     return Array.from(new Uint8Array(hashBuffer))
       .map((b) => b.toString(16).padStart(2, "0"))
       .join("");
   }
 
-  private async downloadFile(entry: FileEntry): Promise<void> {
-    const { url } = await this.api.getDownloadUrl(entry.path);
-    const response = await requestUrl({ url, method: "GET" });
-    if (response.status >= 400) throw new Error(`Failed to download ${entry.path}`);
+  /**
+   * Bring files back from the remote trash and write them into the vault.
+   * The next sync picks them up like newly created files.
+   *
+   * @returns Paths that were no longer in the trash
+   */
+  async restoreFromTrash(paths: string[]): Promise<string[]> {
+    this.cipher = await this.currentCipher();
+    const remotePaths = await Promise.all(paths.map((path) => this.remotePath(path)));
+    const { missing } = await this.api.restoreFromTrash(remotePaths);
+    const restored = paths.filter((_, i) => !missing.includes(remotePaths[i]!));
+    await Promise.all(
+      restored.map((path) => this.transferQueue.enqueue(() => this.fetchRemoteFile(path))),
+    );
+    return missing;
+  }
+
+  /**
+   * Download the content of a previous version of a file.
+   */
+  async fetchVersion(path: string, hash: string): Promise<ArrayBuffer> {
+    this.cipher = await this.currentCipher();
+    const response = await this.api.downloadVersion(await this.remotePath(path), hash);
+    if (response.status >= 400) throw new Error(`Failed to download version of ${path}`);
+    return this.decodeResponse(response);
+  }
 
-    const content = response.arrayBuffer;
+  /**
+   * List the remote trash, with paths decrypted for an encrypted vault.
+   */
+  async listTrash(): Promise<TrashEntry[]> {
+    const cipher = await this.currentCipher();
+    const entries = await this.api.listTrash();
+    if (!cipher) return entries;
+
+    const decrypted: TrashEntry[] = [];
+    for (const entry of entries) {
+      try {
+        decrypted.push({ ...entry, path: await cipher.decryptName(entry.path) });
+      } catch {
+        // Left over from before the vault was encrypted — can't be restored into it
+      }
+    }
+    return decrypted;
+  }
+
+  /**
+   * List previous versions of a file, newest first.
+   */
+  async listVersions(path: string): Promise<VersionEntry[]> {
+    const cipher = await this.currentCipher();
+    return this.api.listVersions(cipher ? await cipher.encryptName(path) : path);
+  }
+
+  /**
+   * Check the remote manifest's encryption against the configured
+   * passphrase and return the cipher to use (null for a plaintext vault).
+   *
+   * @throws EncryptionError when syncing could mix plaintext and ciphertext or use the wrong key
+   */
+  private async resolveCipher(stored: SyncManifest): Promise<VaultCipher | null> {
+    const passphrase = this.plugin.settings.encryptionPassphrase;
+    const params = stored.encryption;
+
+    if (!params) {
+      if (!passphrase) return null;
+      if (Object.keys(stored.files).length > 0) {
+        throw new EncryptionError(
+          "Remote vault is not encrypted — encryption can only be turned on for an empty vault",
+        );
+      }
+      // First device to sync an empty vault with a passphrase sets up encryption
+      if (this.cachedCipher?.passphrase !== passphrase) {
+        this.cachedCipher = await VaultCipher.create(passphrase);
+      }
+      return this.cachedCipher;
+    }
+
+    if (!passphrase) {
+      throw new EncryptionError("Remote vault is encrypted — enter the encryption passphrase in settings");
+    }
+    if (
+      this.cachedCipher?.passphrase !== passphrase ||
+      this.cachedCipher.params.salt !== params.salt ||
+      this.cachedCipher.params.check !== params.check
+    ) {
+      this.cachedCipher = await VaultCipher.unlock(passphrase, params);
+    }
+    return this.cachedCipher;
+  }
+
+  /**
+   * Resolve the cipher outside of a sync cycle.
+   */
+  private async currentCipher(): Promise<VaultCipher | null> {
+    const { manifest } = await this.remoteManifest.get(this.tokenScope);
+    return this.resolveCipher(manifest);
+  }
+
+  /** R2 path of a vault file (an opaque token for an encrypted vault) */
+  private async remotePath(path: string): Promise<string> {
+    return this.cipher ? this.cipher.encryptName(path) : path;
+  }
+
+  private async encodeBody(content: ArrayBuffer): Promise<ArrayBuffer> {
+    return this.cipher ? this.cipher.encrypt(content) : content;
+  }
+
+  private async decodeBody(content: ArrayBuffer): Promise<ArrayBuffer> {
+    return this.cipher ? this.cipher.decrypt(content) : content;
+  }
+
+  private async downloadFile(entry: FileEntry, reportBytes?: ReportBytes): Promise<void> {
+    const file = await this.fetchRemoteFile(entry.path, entry, reportBytes);
+
+    // We already know the hash of what we just wrote — no need to re-hash next cycle
+    this.plugin.hashCache.set(file.path, file.stat.mtime, file.stat.size, entry.hash);
+  }
+
+  /**
+   * Download a file from R2 and write it into the vault.
+   */
+  private async fetchRemoteFile(path: string, entry?: FileEntry, reportBytes?: ReportBytes): Promise<TFile> {
+    const content = await this.downloadContent(path, entry, reportBytes);
+
+    // Never overwrite a local file with content that doesn't match the manifest
+    if (entry && (await this.hashContent(content)) !== entry.hash) {
+      throw new IntegrityError(`Downloaded content of ${path} doesn't match its hash — the local file was kept`);
+    }
 
     // Create parent directories if needed
-    const dir = entry.path.substring(0, entry.path.lastIndexOf("/"));
+    await this.ensureParentFolder(path);
+
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing) {
+      const file = existing as TFile;
+      await this.app.vault.modifyBinary(file, content);
+      return file;
+    }
+    return this.app.vault.createBinary(path, content);
+  }
+
+  /**
+   * Download the current remote content of a file, stored as its manifest
+   * entry says when there is one.
+   */
+  private async downloadContent(path: string, entry?: FileEntry, reportBytes?: ReportBytes): Promise<ArrayBuffer> {
+    // With a known chunk list the object stored under the path can be skipped
+    if (entry?.chunks) return this.downloadChunks(entry.chunks, reportBytes);
+
+    const response = await this.api.downloadFile(await this.remotePath(path));
+    if (response.status >= 400) throw new Error(`Failed to download ${path}`);
+    return this.decodeResponse(response, entry);
+  }
+
+  /**
+   * Undo the upload transforms on a downloaded object: decrypt, decompress,
+   * and assemble chunks. How the object is stored comes from the manifest
+   * entry when there is one, otherwise from the metadata stored with it.
+   */
+  private async decodeResponse(response: RequestUrlResponse, entry?: FileEntry): Promise<ArrayBuffer> {
+    if (!entry && objectMetadata(response.headers, "chunked") === "true") {
+      const chunks = decodeChunkList(response.arrayBuffer);
+      if (!chunks) throw new Error("Stored chunk list is malformed");
+      return this.downloadChunks(await this.chunksFromKeys(chunks));
+    }
+
+    // A multipart upload of an encrypted vault encrypts every part on its own
+    const partSize = Number(objectMetadata(response.headers, "part-size"));
+    if (this.cipher && partSize > 0) {
+      return this.cipher.decryptParts(response.arrayBuffer, partSize);
+    }
+
+    let content = await this.decodeBody(response.arrayBuffer);
+
+    const encoding = entry?.encoding ?? objectEncoding(response.headers);
+    if (encoding) {
+      content = await decompress(content, encoding);
+    }
+    return content;
+  }
+
+  /** Chunk refs from a stored chunk list, which names chunks by their R2 keys */
+  private async chunksFromKeys(chunks: ChunkRef[]): Promise<ChunkRef[]> {
+    const cipher = this.cipher;
+    if (!cipher) return chunks;
+    return Promise.all(chunks.map(async (chunk) => ({ ...chunk, hash: await cipher.decryptName(chunk.hash) })));
+  }
+
+  /** Download and assemble chunks, reporting each one's bytes as it arrives */
+  private async downloadChunks(chunks: ChunkRef[], reportBytes?: ReportBytes): Promise<ArrayBuffer> {
+    const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.size, 0));
+    let offset = 0;
+
+    for (const chunk of chunks) {
+      const response = await this.api.downloadChunk(await this.chunkKey(chunk.hash));
+      if (response.status >= 400) throw new Error(`Failed to download chunk ${chunk.hash}`);
+
+      const content = await this.decodeBody(response.arrayBuffer);
+      if (content.byteLength !== chunk.size) throw new Error(`Chunk ${chunk.hash} has the wrong size`);
+      output.set(new Uint8Array(content), offset);
+      offset += chunk.size;
+      reportBytes?.(chunk.size);
+    }
+
+    return output.buffer;
+  }
+
+  /**
+   * Upload the content-defined chunks of a large file that R2 doesn't have
+   * yet — unchanged chunks, and chunks shared with other files, are not
+   * transferred again. Chunks are checked and uploaded a window at a time,
+   * and a cancelled sync stops between chunks; the chunks already uploaded
+   * are skipped when the file is uploaded again. Each chunk's bytes are
+   * reported once it is stored or found already stored.
+   */
+  private async uploadChunks(
+    contents: Iterable<Uint8Array<ArrayBuffer>> | AsyncIterable<Uint8Array<ArrayBuffer>>,
+    reportBytes?: ReportBytes,
+  ): Promise<ChunkRef[]> {
+    const chunks: ChunkRef[] = [];
+    let window = new Map<string, Uint8Array<ArrayBuffer>>();
+    let windowSize = 0;
+
+    for await (const content of contents) {
+      if (this.cancelRequested) throw new SyncCancelledError("Transfer cancelled");
+      const hash = await this.hashContent(content);
+      chunks.push({ hash, size: content.byteLength });
+      window.set(await this.chunkKey(hash), content);
+      windowSize += content.byteLength;
+      if (windowSize >= STREAMING_WINDOW_SIZE) {
+        await this.uploadMissingChunks(window, reportBytes);
+        window = new Map();
+        windowSize = 0;
+      }
+    }
+    await this.uploadMissingChunks(window, reportBytes);
+
+    return chunks;
+  }
+
+  /** Upload the chunks R2 doesn't have, by R2 key */
+  private async uploadMissingChunks(
+    contents: Map<string, Uint8Array<ArrayBuffer>>,
+    reportBytes?: ReportBytes,
+  ): Promise<void> {
+    if (contents.size === 0) return;
+
+    const missing = new Set(await this.api.findMissingChunks([...contents.keys()]));
+    let stored = 0;
+    for (const [key, content] of contents) {
+      if (!missing.has(key)) stored += content.byteLength;
+    }
+    reportBytes?.(stored);
+
+    for (const key of missing) {
+      if (this.cancelRequested) throw new SyncCancelledError("Transfer cancelled");
+      const content = contents.get(key)!;
+      const body = await this.encodeBody(content.slice().buffer);
+      await this.api.uploadChunk(key, body, await checksumOf(body));
+      reportBytes?.(content.byteLength);
+    }
+  }
+
+  /** R2 key of a chunk (an opaque token for an encrypted vault) */
+  private async chunkKey(hash: string): Promise<string> {
+    return this.cipher ? this.cipher.encryptName(hash) : hash;
+  }
+
+  private async ensureParentFolder(path: string): Promise<void> {
+    const dir = path.substring(0, path.lastIndexOf("/"));
     if (dir && !this.app.vault.getAbstractFileByPath(dir)) {
       await this.app.vault.createFolder(dir);
     }
+  }
 
-    const existing = this.app.vault.getAbstractFileByPath(entry.path);
-    if (existing) {
-      await this.app.vault.modifyBinary(existing as TFile, content);
+  /**
+   * Upload a file. Large files are stored as chunks, with their chunk
+   * list uploaded under the file's path; files too large to read into
+   * memory are chunked as they are read (see uploadStreamed).
+   *
+   * The file may have been edited since it was hashed for the plan, so the
+   * content actually read is hashed again and the entry describes that.
+   *
+   * @returns The entry as stored in the manifest
+   */
+  private async uploadFile(entry: FileEntry, reportBytes?: ReportBytes): Promise<FileEntry> {
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) throw new Error(`File not found: ${entry.path}`);
+    if (file.stat.size > STREAMING_THRESHOLD) return this.uploadStreamed(file, entry, reportBytes);
+
+    let content = await this.app.vault.readBinary(file);
+    const hash = await this.hashContent(content);
+    let stored = entry;
+    if (hash !== entry.hash) {
+      stored = { ...entry, hash, mtime: file.stat.mtime, size: content.byteLength };
+      this.plugin.hashCache.set(file.path, file.stat.mtime, file.stat.size, hash);
+    }
+
+    const chunked = content.byteLength > CHUNKING_THRESHOLD;
+    let body: ArrayBuffer;
+    if (chunked) {
+      const data = new Uint8Array(content);
+      const contents: Uint8Array<ArrayBuffer>[] = [];
+      let start = 0;
+      for (const end of findChunkBoundaries(data)) {
+        contents.push(data.subarray(start, end));
+        start = end;
+      }
+      const chunks = await this.uploadChunks(contents, reportBytes);
+      stored = { ...stored, chunks };
+      body = await this.chunkListBody(chunks);
     } else {
-      await this.app.vault.createBinary(entry.path, content);
+      if (isCompressible(entry.path)) {
+        const compressed = await compress(content);
+        // Tiny files can grow from the gzip header — store those as is
+        if (compressed.byteLength < content.byteLength) {
+          stored = { ...stored, encoding: "gzip" };
+          content = compressed;
+        }
+      }
+      body = await this.encodeBody(content);
     }
+
+    await this.uploadBody(stored, body, chunked);
+    return stored;
   }
 
-  private async uploadFile(entry: FileEntry): Promise<void> {
-    const file = this.app.vault.getAbstractFileByPath(entry.path);
-    if (!file) throw new Error(`File not found: ${entry.path}`);
+  /**
+   * Upload a file too large to read into memory, chunking it as it is read
+   * one window at a time.
+   *
+   * The file is too large to hash again, so it must still be the content
+   * the entry was hashed from, and must not change while it is read.
+   */
+  private async uploadStreamed(file: TFile, entry: FileEntry, reportBytes?: ReportBytes): Promise<FileEntry> {
+    const { mtime, size } = file.stat;
+    if (this.plugin.hashCache.get(file.path, mtime, size) !== entry.hash) {
+      throw new Error(`${entry.path} changed since it was hashed — it will be uploaded on the next sync`);
+    }
 
-    const content = await this.app.vault.readBinary(file as TFile);
-    const { url } = await this.api.getUploadUrl(entry.path, entry.hash);
+    const reader = await this.openRangeReader(file);
+    let chunks: ChunkRef[];
+    try {
+      const contents = readChunks((start, end) => reader.read(start, end), size, STREAMING_WINDOW_SIZE);
+      chunks = await this.uploadChunks(contents, reportBytes);
+    } finally {
+      await reader.close();
+    }
+    if (file.stat.mtime !== mtime || file.stat.size !== size) {
+      throw new Error(`${entry.path} changed while it was uploaded — it will be uploaded on the next sync`);
+    }
 
-    const response = await requestUrl({
-      url,
-      method: "PUT",
-      body: content,
-    });
-    if (response.status >= 400) throw new Error(`Failed to upload ${entry.path}`);
+    const stored = { ...entry, chunks };
+    await this.uploadBody(stored, await this.chunkListBody(chunks), true);
+    return stored;
+  }
+
+  /** Read a file's bytes through its path on disk on desktop, or its resource URL elsewhere */
+  private async openRangeReader(file: TFile): Promise<RangeReader> {
+    const adapter = this.app.vault.adapter;
+    if (adapter instanceof FileSystemAdapter) {
+      return FileRangeReader.open(adapter.getFullPath(file.path));
+    }
+    return new UrlRangeReader(this.app.vault.getResourcePath(file));
+  }
+
+  /**
+   * The chunk list stored under a chunked file's path. Not encrypted, so
+   * the worker can tell which chunks are in use — the list names chunks by
+   * their R2 keys and shows no more than the manifest.
+   */
+  private async chunkListBody(chunks: ChunkRef[]): Promise<ArrayBuffer> {
+    const keys = await Promise.all(
+      chunks.map(async (chunk) => ({ ...chunk, hash: await this.chunkKey(chunk.hash) })),
+    );
+    return encodeChunkList(keys).buffer as ArrayBuffer;
+  }
+
+  private async uploadBody(stored: FileEntry, body: ArrayBuffer, chunked: boolean): Promise<void> {
+    // The upload is bound to the checksum of the body, so R2 rejects it if it's corrupted on the way
+    const response = await this.api.uploadFile(
+      await this.remotePath(stored.path),
+      this.cipher ? await this.cipher.encryptName(stored.hash) : stored.hash,
+      body,
+      await checksumOf(body),
+      stored.encoding,
+      chunked,
+    );
+    if (response.status >= 400) throw new Error(`Failed to upload ${stored.path}`);
   }
 
   private async deleteLocalFile(path: string): Promise<void> {
     const file = this.app.vault.getAbstractFileByPath(path);
     if (file) {
-      await this.app.vault.delete(file);
+      // Honours the user's "Deleted files" preference (system or .trash folder)
+      await this.app.fileManager.trashFile(file);
     }
   }
+}
 
-  private isDiffEmpty(diff: DiffResult): boolean {
-    return (
-      diff.toUpload.length === 0 &&
-      diff.toDownload.length === 0 &&
-      diff.toDeleteRemote.length === 0 &&
-      diff.toDeleteLocal.length === 0 &&
-      diff.conflicts.length === 0
-    );
+/** Base64-encoded SHA-256 of an upload body, as R2 expects in `x-amz-checksum-sha256` */
+async function checksumOf(body: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", body));
+  let binary = "";
+  for (const byte of digest) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Paths whose base a cycle may advance: its scope (every path, if it is
+ * unscoped) except the paths left pending.
+ */
+function withoutPending(plan: SyncPlan, scope: Set<string> | undefined, pending: string[]): Set<string> | undefined {
+  if (pending.length === 0) return scope;
+
+  const paths = scope ?? new Set([
+    ...Object.keys(plan.remoteManifest.files),
+    ...Object.keys(plan.localManifest.files),
+    ...Object.keys(plan.baseManifest?.files ?? {}),
+  ]);
+  for (const path of pending) paths.delete(path);
+  return paths;
+}
+
+function totalSize(entries: FileEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.size, 0);
+}
+
+/**
+ * Metadata recorded with an object at upload (returned as
+ * `x-amz-meta-*` headers by R2).
+ */
+function objectMetadata(headers: Record<string, string>, name: string): string | undefined {
+  for (const [header, value] of Object.entries(headers ?? {})) {
+    if (header.toLowerCase() === `x-amz-meta-${name}`) return value;
+  }
+  return undefined;
+}
+
+function objectEncoding(headers: Record<string, string>): ContentEncoding | undefined {
+  return objectMetadata(headers, "encoding") === "gzip" ? "gzip" : undefined;
+}
+
+/**
+ * Thrown when the user stops a sync cycle before anything was changed.
+ */
+export class SyncAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncAbortedError";
   }
 }
 
-interface ResolvedConflict {
-  path: string;
-  action: "uploaded" | "downloaded" | "deleted";
-  entry: FileEntry;
+/**
+ * Thrown when the user cancels a sync cycle. Whatever completed before
+ * the cancellation has been recorded.
+ */
+export class SyncCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncCancelledError";
+  }
+}
+
+/**
+ * Thrown when downloaded content doesn't match the hash in the manifest.
+ */
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntegrityError";
+  }
 }
@@ -0,0 +1,99 @@
+import { PACKAGE_VERSION } from "@obsidian-r2-sync/shared";
+
+/** Cached hash for a single vault file, valid while mtime and size are unchanged */
+export interface HashCacheEntry {
+  mtime: number;
+  size: number;
+  hash: string;
+}
+
+/** Persisted form of the hash cache (stored in plugin data) */
+export interface HashCacheData {
+  /** Plugin version that wrote the cache — a mismatch discards all entries */
+  version: string;
+  entries: Record<string, HashCacheEntry>;
+}
+
+/**
+ * Per-path cache of file content hashes keyed on (mtime, size).
+ *
+ * Lets the sync engine skip reading and hashing files that have not
+ * changed since the last cycle. The whole cache is dropped when the
+ * plugin version changes, in case the hashing scheme changed with it.
+ */
+export class HashCache {
+  private entries: Record<string, HashCacheEntry>;
+  private version: string;
+  /** Whether the cache changed since it was last serialized */
+  dirty = false;
+
+  constructor(data: HashCacheData | null, version = PACKAGE_VERSION) {
+    this.version = version;
+    if (data && data.version === version) {
+      this.entries = { ...data.entries };
+    } else {
+      this.entries = {};
+      this.dirty = data !== null;
+    }
+  }
+
+  /**
+   * Look up the cached hash for a path.
+   * Returns null if there is no entry or the file's mtime/size changed.
+   */
+  get(path: string, mtime: number, size: number): string | null {
+    const entry = this.entries[path];
+    if (!entry || entry.mtime !== mtime || entry.size !== size) return null;
+    return entry.hash;
+  }
+
+  set(path: string, mtime: number, size: number, hash: string): void {
+    const existing = this.entries[path];
+    if (existing && existing.mtime === mtime && existing.size === size && existing.hash === hash) {
+      return;
+    }
+    this.entries[path] = { mtime, size, hash };
+    this.dirty = true;
+  }
+
+  delete(path: string): void {
+    if (path in this.entries) {
+      delete this.entries[path];
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Drop entries for paths that are no longer in the vault.
+   */
+  prune(livePaths: Set<string>): void {
+    for (const path of Object.keys(this.entries)) {
+      if (!livePaths.has(path)) {
+        delete this.entries[path];
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Drop all entries, forcing every file to be re-hashed.
+   */
+  clear(): void {
+    if (Object.keys(this.entries).length > 0) {
+      this.entries = {};
+      this.dirty = true;
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  /**
+   * Serialize the cache for persistence and mark it clean.
+   */
+  serialize(): HashCacheData {
+    this.dirty = false;
+    return { version: this.version, entries: this.entries };
+  }
+}
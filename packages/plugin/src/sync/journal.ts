@@ -0,0 +1,195 @@
+import type { DataAdapter } from "obsidian";
+import type { FileEntry, RenameEntry, SyncManifest } from "@obsidian-r2-sync/shared";
+
+export interface ResolvedConflict {
+  path: string;
+  action: "uploaded" | "downloaded" | "deleted";
+  entry: FileEntry;
+}
+
+/** Changes a cycle made, as recorded in the remote manifest */
+export interface CycleChanges {
+  uploaded: FileEntry[];
+  downloaded: FileEntry[];
+  resolvedConflicts: ResolvedConflict[];
+  renamed?: RenameEntry[];
+  deletedRemote?: string[];
+  deletedLocal?: string[];
+}
+
+/** What a cycle was about to do, written before it changes anything */
+export interface JournalHeader {
+  startedAt: string;
+  /** Remote manifest the cycle was planned against (decrypted), restricted to the planned paths */
+  remoteManifest: SyncManifest;
+  etag: string | null;
+  /** Paths the cycle planned to change */
+  planned: string[];
+}
+
+export type JournalRecord =
+  | { type: "begin"; header: JournalHeader }
+  | { type: "downloaded"; entry: FileEntry }
+  | { type: "uploaded"; entry: FileEntry }
+  | { type: "resolved"; conflict: ResolvedConflict }
+  | { type: "renamed"; rename: RenameEntry }
+  | { type: "deleted-remote"; paths: string[] }
+  | { type: "deleted-local"; path: string };
+
+/** A cycle that was interrupted before its changes were recorded */
+export interface InterruptedCycle {
+  header: JournalHeader;
+  /** Changes that completed before the interruption */
+  changes: Required<CycleChanges>;
+}
+
+/**
+ * Write-ahead journal of the running sync cycle, stored as JSON lines
+ * under the plugin folder.
+ *
+ * The plan is written before any file is transferred, and each change is
+ * appended as soon as it completes. The journal is cleared once the
+ * remote manifest and the base record the cycle; if it is still there on
+ * the next start, the cycle was interrupted and its completed changes can
+ * be recorded instead of being seen as conflicts.
+ */
+export class SyncJournal {
+  /** Appends are chained so concurrent transfers don't interleave their writes */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private adapter: DataAdapter,
+    private path: string,
+  ) {}
+
+  /**
+   * Start a journal for a new cycle, replacing any previous one.
+   */
+  async begin(header: JournalHeader): Promise<void> {
+    await this.enqueue(() => this.adapter.write(this.path, serializeRecord({ type: "begin", header })));
+  }
+
+  /**
+   * Append a completed change.
+   */
+  async record(record: Exclude<JournalRecord, { type: "begin" }>): Promise<void> {
+    await this.enqueue(() => this.adapter.append(this.path, serializeRecord(record)));
+  }
+
+  /**
+   * Read the journal left by an interrupted cycle, or null if there is none.
+   */
+  async read(): Promise<InterruptedCycle | null> {
+    await this.writes;
+    if (!(await this.adapter.exists(this.path))) return null;
+    return replayJournal(await this.adapter.read(this.path));
+  }
+
+  async clear(): Promise<void> {
+    await this.enqueue(async () => {
+      if (await this.adapter.exists(this.path)) {
+        await this.adapter.remove(this.path);
+      }
+    });
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(write);
+    // Keep the chain going after a failed write; the caller still sees the error
+    this.writes = next.catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * Rebuild an interrupted cycle from the journal's lines. Lines that can't
+ * be parsed (e.g. torn by a crash mid-write) are skipped.
+ *
+ * @returns null if the journal has no header
+ */
+export function replayJournal(text: string): InterruptedCycle | null {
+  let header: JournalHeader | null = null;
+  const changes: Required<CycleChanges> = {
+    uploaded: [],
+    downloaded: [],
+    resolvedConflicts: [],
+    renamed: [],
+    deletedRemote: [],
+    deletedLocal: [],
+  };
+
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") continue;
+
+    let record: JournalRecord;
+    try {
+      record = JSON.parse(line) as JournalRecord;
+    } catch {
+      continue;
+    }
+
+    switch (record.type) {
+      case "begin":
+        header = record.header;
+        break;
+      case "downloaded":
+        changes.downloaded.push(record.entry);
+        break;
+      case "uploaded":
+        changes.uploaded.push(record.entry);
+        break;
+      case "resolved":
+        changes.resolvedConflicts.push(record.conflict);
+        break;
+      case "renamed":
+        changes.renamed.push(record.rename);
+        break;
+      case "deleted-remote":
+        changes.deletedRemote.push(...record.paths);
+        break;
+      case "deleted-local":
+        changes.deletedLocal.push(record.path);
+        break;
+    }
+  }
+
+  return header ? { header, changes } : null;
+}
+
+/**
+ * The changes that don't touch any of the given paths. A rename is left
+ * out if either of its ends is among them.
+ */
+export function changesExcept(changes: Required<CycleChanges>, paths: Set<string>): Required<CycleChanges> {
+  const kept = (path: string) => !paths.has(path);
+  return {
+    uploaded: changes.uploaded.filter((entry) => kept(entry.path)),
+    downloaded: changes.downloaded.filter((entry) => kept(entry.path)),
+    resolvedConflicts: changes.resolvedConflicts.filter((conflict) => kept(conflict.path)),
+    renamed: changes.renamed.filter((rename) => kept(rename.from) && kept(rename.to)),
+    deletedRemote: changes.deletedRemote.filter(kept),
+    deletedLocal: changes.deletedLocal.filter(kept),
+  };
+}
+
+/**
+ * Every path touched by a set of changes.
+ */
+export function changedPaths(changes: CycleChanges): Set<string> {
+  const paths = new Set<string>();
+  for (const entry of [...changes.uploaded, ...changes.downloaded, ...changes.resolvedConflicts]) {
+    paths.add(entry.path);
+  }
+  for (const rename of changes.renamed ?? []) {
+    paths.add(rename.from);
+    paths.add(rename.to);
+  }
+  for (const path of [...(changes.deletedRemote ?? []), ...(changes.deletedLocal ?? [])]) {
+    paths.add(path);
+  }
+  return paths;
+}
+
+function serializeRecord(record: JournalRecord): string {
+  return JSON.stringify(record) + "\n";
+}
@@ -1,7 +1,3 @@
-import DiffMatchPatch from "diff-match-patch";
-
-const dmp = new DiffMatchPatch();
-
 export interface MergeResult {
   /** Whether the merge was clean (no conflicts) */
   clean: boolean;
@@ -9,33 +5,218 @@ export interface MergeResult {
   content: string;
   /** If not clean, conflict markers are embedded in the content */
   hasConflictMarkers: boolean;
+  /** Conflicting hunks, in the order they appear in the merged content */
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Location of one conflicting hunk.
+ * All line numbers are 1-based.
+ */
+export interface MergeConflict {
+  /** Line of the `<<<<<<< LOCAL` marker in the merged content */
+  startLine: number;
+  /** Line of the `>>>>>>> REMOTE` marker in the merged content */
+  endLine: number;
+  /** First base line covered by the hunk (for an insertion, the line it precedes) */
+  baseLine: number;
+  /** Number of base lines replaced by the conflicting edits */
+  baseLength: number;
+}
+
+const MARKER_LOCAL = "<<<<<<< LOCAL";
+const MARKER_SEPARATOR = "=======";
+const MARKER_REMOTE = ">>>>>>> REMOTE";
+
+/**
+ * Whether a file can be merged as text (and so needs a stored merge base).
+ */
+export function isMergeable(path: string): boolean {
+  return path.endsWith(".md");
 }
 
 /**
  * Perform a three-way merge of text content.
  *
+ * This is a line-based diff3: edits that don't overlap are merged
+ * cleanly, identical edits on both sides are taken once, and only the
+ * overlapping hunks are wrapped in conflict markers.
+ *
  * @param base   - The common ancestor content
  * @param local  - The locally modified content
  * @param remote - The remotely modified content
  * @returns MergeResult with merged content
  */
 export function threeWayMerge(base: string, local: string, remote: string): MergeResult {
-  // Compute patches from base → remote
-  const patches = dmp.patch_make(base, remote);
+  const baseLines = base.split("\n");
+  const localLines = local.split("\n");
+  const remoteLines = remote.split("\n");
+
+  const localMatch = matchLines(baseLines, localLines);
+  const remoteMatch = matchLines(baseLines, remoteLines);
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  let i = 0; // base
+  let a = 0; // local
+  let b = 0; // remote
+
+  while (i < baseLines.length || a < localLines.length || b < remoteLines.length) {
+    // Stable line: unchanged on both sides
+    if (i < baseLines.length && localMatch[i] === a && remoteMatch[i] === b) {
+      output.push(baseLines[i]!);
+      i++;
+      a++;
+      b++;
+      continue;
+    }
+
+    // Find the next base line that both sides kept — the end of this unstable hunk
+    let j = i;
+    while (j < baseLines.length && (localMatch[j] === -1 || remoteMatch[j] === -1)) {
+      j++;
+    }
+    const localEnd = j < baseLines.length ? localMatch[j]! : localLines.length;
+    const remoteEnd = j < baseLines.length ? remoteMatch[j]! : remoteLines.length;
+
+    const baseHunk = baseLines.slice(i, j);
+    const localHunk = localLines.slice(a, localEnd);
+    const remoteHunk = remoteLines.slice(b, remoteEnd);
+
+    if (linesEqual(localHunk, baseHunk)) {
+      // Only remote changed
+      output.push(...remoteHunk);
+    } else if (linesEqual(remoteHunk, baseHunk) || linesEqual(localHunk, remoteHunk)) {
+      // Only local changed, or both made the same change
+      output.push(...localHunk);
+    } else {
+      const startLine = output.length + 1;
+      output.push(MARKER_LOCAL, ...localHunk, MARKER_SEPARATOR, ...remoteHunk, MARKER_REMOTE);
+      conflicts.push({
+        startLine,
+        endLine: output.length,
+        baseLine: i + 1,
+        baseLength: j - i,
+      });
+    }
 
-  // Apply remote patches to local
-  const [merged, results] = dmp.patch_apply(patches, local);
+    i = j;
+    a = localEnd;
+    b = remoteEnd;
+  }
 
-  const allApplied = results.every((r) => r);
+  return {
+    clean: conflicts.length === 0,
+    content: output.join("\n"),
+    hasConflictMarkers: conflicts.length > 0,
+    conflicts,
+  };
+}
 
-  if (allApplied) {
-    return { clean: true, content: merged, hasConflictMarkers: false };
+function linesEqual(x: string[], y: string[]): boolean {
+  if (x.length !== y.length) return false;
+  for (let i = 0; i < x.length; i++) {
+    if (x[i] !== y[i]) return false;
   }
+  return true;
+}
+
+/**
+ * Compute a longest-common-subsequence alignment of two line arrays.
+ *
+ * @returns For each index in `a`, the matching index in `b`, or -1 if the line was removed
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const match = new Array<number>(a.length).fill(-1);
 
-  // Some patches failed — fall back to conflict markers
-  // TODO: Implement proper conflict marker insertion
-  const conflictContent =
-    `<<<<<<< LOCAL\n${local}\n=======\n${remote}\n>>>>>>> REMOTE\n`;
+  // Common prefix and suffix are matched directly, leaving a smaller middle to diff
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    match[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    match[endA] = endB;
+  }
 
-  return { clean: false, content: conflictContent, hasConflictMarkers: true };
+  myersDiff(a, b, start, endA, start, endB, match);
+  return match;
+}
+
+/**
+ * Myers' O(ND) diff over a[aStart..aEnd) and b[bStart..bEnd),
+ * recording matched line pairs into `match`.
+ */
+function myersDiff(
+  a: string[],
+  b: string[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number,
+  match: number[],
+): void {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  if (n === 0 || m === 0) return;
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d..d] as it was before step d, for backtracking
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)) {
+        x = v[offset + k + 1]!;
+      } else {
+        x = v[offset + k - 1]! + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards, recording diagonal (matching) moves
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d]!;
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && prev[k - 1 + d]! < prev[k + 1 + d]!)) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = d === 0 ? 0 : prev[prevK + d]!;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      match[aStart + x] = bStart + y;
+    }
+    if (d > 0) {
+      x = prevX;
+      y = prevY;
+    }
+  }
 }
@@ -0,0 +1,108 @@
+import type { SyncProgress } from "@obsidian-r2-sync/shared";
+
+export type ProgressListener = (progress: SyncProgress) => void;
+
+/** Minimum time between progress events, except at the start and end of a phase */
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Counts the files and bytes done in the current phase of a sync cycle
+ * and estimates the time left from the rate so far.
+ *
+ * Events are throttled — hashing a large vault advances thousands of
+ * times a second.
+ */
+export class ProgressTracker {
+  private progress: SyncProgress | null = null;
+  private startedAt = 0;
+  private lastEmit = 0;
+
+  constructor(
+    private listener: ProgressListener,
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Start a phase.
+   *
+   * @param total      - Files the phase will process
+   * @param bytesTotal - Bytes the phase will transfer, if it counts bytes
+   */
+  start(phase: SyncProgress["phase"], total: number, bytesTotal = 0): void {
+    this.progress = { phase, current: 0, total, bytesDone: 0, bytesTotal };
+    this.startedAt = this.now();
+    this.emit();
+  }
+
+  /** Mark one file of the current phase done, with its bytes not yet counted by addBytes */
+  advance(bytes = 0): void {
+    if (!this.progress) return;
+    this.progress.current++;
+    this.progress.bytesDone += bytes;
+
+    const finished = this.progress.current >= this.progress.total;
+    if (finished || this.now() - this.lastEmit >= PROGRESS_INTERVAL_MS) {
+      this.emit();
+    }
+  }
+
+  /**
+   * Count bytes of a file still being transferred, so a large file shows
+   * progress before it is done. Negative to take back bytes of a failed
+   * attempt.
+   */
+  addBytes(bytes: number): void {
+    if (!this.progress) return;
+    this.progress.bytesDone += bytes;
+    if (this.now() - this.lastEmit >= PROGRESS_INTERVAL_MS) {
+      this.emit();
+    }
+  }
+
+  private emit(): void {
+    if (!this.progress) return;
+    this.lastEmit = this.now();
+    const progress: SyncProgress = { ...this.progress };
+    const eta = this.estimateSeconds();
+    if (eta !== undefined) {
+      progress.etaSeconds = eta;
+    }
+    this.listener(progress);
+  }
+
+  /** Time left at the rate so far — by bytes when the phase counts them, otherwise by files */
+  private estimateSeconds(): number | undefined {
+    const { current, total, bytesDone, bytesTotal } = this.progress!;
+    const elapsed = (this.now() - this.startedAt) / 1000;
+    if (elapsed <= 0) return undefined;
+
+    const [done, all] = bytesTotal > 0 ? [bytesDone, bytesTotal] : [current, total];
+    if (done <= 0) return undefined;
+    return Math.max(0, Math.round((elapsed * (all - done)) / done));
+  }
+}
+
+/**
+ * Short human-readable form of a progress event, e.g. "Uploading 12/340 · 2m left".
+ */
+export function formatProgress(progress: SyncProgress): string {
+  const phase = progress.phase.charAt(0).toUpperCase() + progress.phase.slice(1);
+  let text = progress.total > 0 ? `${phase} ${progress.current}/${progress.total}` : phase;
+  if (progress.etaSeconds !== undefined && progress.current < progress.total) {
+    text += ` · ${formatDuration(progress.etaSeconds)} left`;
+  }
+  return text;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${Math.floor(seconds / 3600)}h ${Math.round((seconds % 3600) / 60)}m`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -1,7 +1,14 @@
 import { MAX_CONCURRENT_TRANSFERS, MAX_RETRIES, RETRY_BACKOFF_MS } from "@obsidian-r2-sync/shared";
 
+/** Called by a running task with the bytes it has just transferred */
+export type ReportBytes = (bytes: number) => void;
+
 interface QueueTask<T> {
-  execute: () => Promise<T>;
+  execute: (reportBytes: ReportBytes) => Promise<T>;
+  /** Bytes the task transfers, if it is reported to the listeners */
+  size?: number;
+  /** Bytes the current attempt has reported so far */
+  reported: number;
   resolve: (value: T) => void;
   reject: (error: Error) => void;
   retries: number;
@@ -12,20 +19,36 @@ interface QueueTask<T> {
  */
 export class TransferQueue {
   private queue: QueueTask<unknown>[] = [];
+  /** Failed tasks waiting out their backoff before a retry (counted as active) */
+  private backoff = new Set<QueueTask<unknown>>();
   private active = 0;
   private concurrency: number;
 
-  constructor(concurrency = MAX_CONCURRENT_TRANSFERS) {
+  /**
+   * @param onTaskComplete - Called when each sized task succeeds, with its bytes it hadn't reported yet
+   * @param onBytes        - Called with the bytes a sized task reports while it runs; negative
+   *                         to take back what a failed attempt reported, as its retry reports it again
+   */
+  constructor(
+    concurrency = MAX_CONCURRENT_TRANSFERS,
+    private onTaskComplete?: (size: number) => void,
+    private onBytes?: (bytes: number) => void,
+  ) {
     this.concurrency = concurrency;
   }
 
   /**
    * Add a task to the queue.
+   *
+   * @param size - Bytes the task transfers. Only tasks with a size are
+   *               reported to the listeners.
    */
-  enqueue<T>(execute: () => Promise<T>): Promise<T> {
+  enqueue<T>(execute: (reportBytes: ReportBytes) => Promise<T>, size?: number): Promise<T> {
     return new Promise<T>((resolve, reject) => {
       this.queue.push({
-        execute: execute as () => Promise<unknown>,
+        execute: execute as (reportBytes: ReportBytes) => Promise<unknown>,
+        size,
+        reported: 0,
         resolve: resolve as (value: unknown) => void,
         reject,
         retries: 0,
@@ -43,18 +66,34 @@ export class TransferQueue {
     const task = this.queue.shift()!;
     this.active++;
 
+    const reportBytes = (bytes: number) => {
+      if (task.size === undefined) return;
+      task.reported += bytes;
+      this.onBytes?.(bytes);
+    };
+
     task
-      .execute()
+      .execute(reportBytes)
       .then((result) => {
+        if (task.size !== undefined) {
+          this.onTaskComplete?.(task.size - task.reported);
+        }
         task.resolve(result);
         this.active--;
         this.processNext();
       })
       .catch((error) => {
+        if (task.reported !== 0) {
+          this.onBytes?.(-task.reported);
+          task.reported = 0;
+        }
         if (task.retries < MAX_RETRIES) {
           task.retries++;
           const delay = RETRY_BACKOFF_MS * Math.pow(2, task.retries - 1);
+          this.backoff.add(task);
           setTimeout(() => {
+            // Already rejected by cancelPending()
+            if (!this.backoff.delete(task)) return;
             this.active--;
             this.queue.unshift(task);
             this.processNext();
@@ -67,6 +106,21 @@ export class TransferQueue {
       });
   }
 
+  /**
+   * Reject every task that hasn't started, including failed tasks waiting
+   * to be retried. Tasks already running are left to finish.
+   */
+  cancelPending(reason: Error): void {
+    for (const task of this.queue.splice(0)) {
+      task.reject(reason);
+    }
+    for (const task of this.backoff) {
+      task.reject(reason);
+      this.active--;
+    }
+    this.backoff.clear();
+  }
+
   /** Number of tasks currently active */
   get activeCount(): number {
     return this.active;
@@ -0,0 +1,76 @@
+/**
+ * Reads a file one byte range at a time, so a large file never has to be
+ * held in memory whole.
+ */
+export interface RangeReader {
+  /** Read the bytes from `start` up to (not including) `end` */
+  read(start: number, end: number): Promise<ArrayBuffer>;
+  close(): Promise<void>;
+}
+
+/** The part of Node's `fs/promises` used to read ranges */
+export interface FileSystem {
+  open(path: string, flags: "r"): Promise<FileHandle>;
+}
+
+interface FileHandle {
+  read(buffer: Uint8Array, offset: number, length: number, position: number): Promise<{ bytesRead: number }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Reads through a file handle — on desktop, where the vault is a folder
+ * on disk that Node's file system module can open.
+ */
+export class FileRangeReader implements RangeReader {
+  private constructor(private handle: FileHandle) {}
+
+  /** @param fs - Node's `fs/promises` (by default the desktop app's own) */
+  static async open(path: string, fs: FileSystem = desktopFileSystem()): Promise<FileRangeReader> {
+    return new FileRangeReader(await fs.open(path, "r"));
+  }
+
+  async read(start: number, end: number): Promise<ArrayBuffer> {
+    const buffer = new Uint8Array(end - start);
+    let offset = 0;
+    while (offset < buffer.length) {
+      const { bytesRead } = await this.handle.read(buffer, offset, buffer.length - offset, start + offset);
+      if (bytesRead === 0) throw new Error("File ended before the range being read — it was changed");
+      offset += bytesRead;
+    }
+    return buffer.buffer;
+  }
+
+  close(): Promise<void> {
+    return this.handle.close();
+  }
+}
+
+/**
+ * Reads through a file's resource URL with range requests — on mobile,
+ * where there is no file system module. Where the URL doesn't serve
+ * ranges the read fails, rather than reading the whole file into memory.
+ */
+export class UrlRangeReader implements RangeReader {
+  constructor(
+    private url: string,
+    private fetchUrl: (url: string, init: RequestInit) => Promise<Response> = (url, init) => fetch(url, init),
+  ) {}
+
+  async read(start: number, end: number): Promise<ArrayBuffer> {
+    const response = await this.fetchUrl(this.url, { headers: { Range: `bytes=${start}-${end - 1}` } }).catch(
+      () => null,
+    );
+    if (response?.status === 206) {
+      const range = await response.arrayBuffer();
+      if (range.byteLength === end - start) return range;
+    }
+    throw new Error("This device can't read part of a file, so files this large can't be uploaded from it");
+  }
+
+  async close(): Promise<void> {}
+}
+
+function desktopFileSystem(): FileSystem {
+  return (window as unknown as { require(id: string): FileSystem }).require("fs/promises");
+}
@@ -0,0 +1,83 @@
+import type { ManifestPatchRequest, ManifestShard, SyncManifest, TokenScope } from "@obsidian-r2-sync/shared";
+import { joinShards, manifestOperations, serializeShard } from "@obsidian-r2-sync/shared";
+import type { ApiClient } from "../api/client.js";
+import { ManifestConflictError } from "../api/client.js";
+import type { BaseStore } from "./base-store.js";
+
+/**
+ * The remote manifest, stored as an index of content-addressed shards.
+ *
+ * Shards are cached locally by hash, so a sync only downloads the shards
+ * that changed since the last one. The worker leaves out the files outside
+ * the folders a token is limited to, so the same hash stands for different
+ * shard content under different token scopes: the cache is keyed by both. Changes are sent as per-path
+ * operations that the worker applies to the shards.
+ */
+export class RemoteManifest {
+  constructor(
+    private api: ApiClient,
+    private cache: BaseStore,
+  ) {}
+
+  /**
+   * Fetch the index and assemble the manifest from cached and fetched shards.
+   *
+   * @param scope - Scope of the token the shards are fetched with
+   * @throws ManifestConflictError if a shard was replaced while it was being read
+   */
+  async get(scope: TokenScope): Promise<{ manifest: SyncManifest; etag: string | null }> {
+    const { index, etag } = await this.api.getManifestIndex();
+    const hashes = [...new Set(Object.values(index.shards))];
+    const suffix = await scopeSuffix(scope);
+
+    const shards: Record<string, ManifestShard> = {};
+    const uncached: string[] = [];
+    for (const hash of hashes) {
+      const cached = await this.cache.get(hash + suffix);
+      if (cached !== null) {
+        shards[hash] = JSON.parse(cached) as ManifestShard;
+      } else {
+        uncached.push(hash);
+      }
+    }
+
+    if (uncached.length > 0) {
+      const fetched = await this.api.getManifestShards(uncached);
+      if (fetched.missing.length > 0) {
+        throw new ManifestConflictError("Manifest changed while it was being read");
+      }
+      for (const [hash, shard] of Object.entries(fetched.shards)) {
+        shards[hash] = shard;
+        await this.cache.put(hash + suffix, serializeShard(shard));
+      }
+    }
+
+    await this.cache.prune(new Set(hashes.map((hash) => hash + suffix)));
+    return { manifest: joinShards(index, shards), etag };
+  }
+
+  /**
+   * Write the changes from `before` to `after` as per-path operations.
+   * Returns null if there was nothing to write.
+   *
+   * @throws ManifestConflictError if another device changed one of the paths
+   */
+  async patch(before: SyncManifest, after: SyncManifest): Promise<{ etag: string } | null> {
+    const operations = manifestOperations(before.files, after.files);
+    if (operations.length === 0) return null;
+
+    const request: ManifestPatchRequest = { operations };
+    if (after.encryption) {
+      request.encryption = after.encryption;
+    }
+    return this.api.patchManifest(request);
+  }
+}
+
+/** Cache key suffix for shards fetched with a token of this scope; none for the whole vault */
+async function scopeSuffix(scope: TokenScope): Promise<string> {
+  if (scope.prefixes.length === 0) return "";
+  const prefixes = new TextEncoder().encode(JSON.stringify([...scope.prefixes].sort()));
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", prefixes));
+  return "-" + Array.from(digest.subarray(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+}
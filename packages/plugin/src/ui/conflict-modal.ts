@@ -1,5 +1,6 @@
 import { Modal, App } from "obsidian";
 import type { ConflictEntry } from "@obsidian-r2-sync/shared";
+import { describeConflict } from "../sync/differ.js";
 
 export type ConflictResolution = "keep-local" | "keep-remote" | "merge";
 
@@ -41,9 +42,7 @@ export class ConflictModal extends Modal {
     contentEl.addClass("r2-sync-conflict-modal");
 
     contentEl.createEl("h2", { text: `Conflict: ${this.conflict.path}` });
-    contentEl.createEl("p", {
-      text: "This file was modified on both this device and another device.",
-    });
+    contentEl.createEl("p", { text: describeConflict(this.conflict) });
 
     // Local version
     contentEl.createEl("h3", { text: "Local version" });
@@ -0,0 +1,84 @@
+import { Modal, App } from "obsidian";
+
+/** Maximum number of paths listed per side before summarizing */
+const MAX_LISTED_PATHS = 200;
+
+/**
+ * Modal shown when a sync cycle would delete more files than the
+ * safeguard allows. Nothing is deleted unless the user confirms.
+ */
+export class DeleteConfirmModal extends Modal {
+  private toDeleteLocal: string[];
+  private toDeleteRemote: string[];
+  private resolvePromise!: (confirmed: boolean) => void;
+  private resolved = false;
+
+  constructor(app: App, toDeleteLocal: string[], toDeleteRemote: string[]) {
+    super(app);
+    this.toDeleteLocal = toDeleteLocal;
+    this.toDeleteRemote = toDeleteRemote;
+  }
+
+  /**
+   * Show the modal and wait for the user to confirm or cancel.
+   */
+  async waitForConfirmation(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolvePromise = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass("r2-sync-delete-confirm-modal");
+
+    const total = this.toDeleteLocal.length + this.toDeleteRemote.length;
+    contentEl.createEl("h2", { text: `Confirm ${total} deletions` });
+    contentEl.createEl("p", {
+      text:
+        "This sync would delete an unusually large number of files. " +
+        "If you didn't expect this (e.g. the vault folder was moved or exclude patterns changed), cancel.",
+    });
+
+    this.renderList("Delete on this device", this.toDeleteLocal);
+    this.renderList("Delete on remote (and other devices)", this.toDeleteRemote);
+
+    // Action buttons — listeners are cleaned up when onClose() empties contentEl
+    const actions = contentEl.createEl("div", { cls: "delete-confirm-actions" });
+
+    const cancelBtn = actions.createEl("button", { text: "Cancel sync", cls: "mod-cta" });
+    cancelBtn.addEventListener("click", () => this.finish(false));
+
+    const confirmBtn = actions.createEl("button", { text: "Delete files", cls: "mod-warning" });
+    confirmBtn.addEventListener("click", () => this.finish(true));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    // Closing without choosing (Escape, click outside) deletes nothing
+    if (!this.resolved) {
+      this.resolved = true;
+      this.resolvePromise(false);
+    }
+  }
+
+  private renderList(title: string, paths: string[]): void {
+    if (paths.length === 0) return;
+
+    this.contentEl.createEl("h3", { text: `${title} (${paths.length})` });
+    const list = this.contentEl.createEl("ul", { cls: "delete-confirm-list" });
+    for (const path of paths.slice(0, MAX_LISTED_PATHS)) {
+      list.createEl("li", { text: path });
+    }
+    if (paths.length > MAX_LISTED_PATHS) {
+      list.createEl("li", { text: `…and ${paths.length - MAX_LISTED_PATHS} more` });
+    }
+  }
+
+  private finish(confirmed: boolean): void {
+    this.resolved = true;
+    this.resolvePromise(confirmed);
+    this.close();
+  }
+}
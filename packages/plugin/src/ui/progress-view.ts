@@ -0,0 +1,78 @@
+import { ItemView, type WorkspaceLeaf } from "obsidian";
+import type { SyncStatus } from "@obsidian-r2-sync/shared";
+import { formatBytes, formatProgress } from "../sync/progress.js";
+
+export const PROGRESS_VIEW_TYPE = "r2-sync-progress";
+
+/**
+ * Side panel with the progress of the running sync.
+ */
+export class SyncProgressView extends ItemView {
+  constructor(
+    leaf: WorkspaceLeaf,
+    private getStatus: () => SyncStatus,
+    private onCancel: () => void,
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return PROGRESS_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "R2 sync progress";
+  }
+
+  getIcon(): string {
+    return "refresh-cw";
+  }
+
+  async onOpen(): Promise<void> {
+    this.render(this.getStatus());
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  render(status: SyncStatus): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("r2-sync-progress-view");
+
+    if (status.state === "idle") {
+      contentEl.createEl("p", { text: "No sync running." });
+      return;
+    }
+    if (status.state === "error") {
+      contentEl.createEl("p", { text: `Last sync failed: ${status.message}` });
+      return;
+    }
+    if (status.state === "conflict") {
+      contentEl.createEl("p", { text: `${status.conflicts.length} conflicts need attention.` });
+      return;
+    }
+
+    const { progress } = status;
+    contentEl.createEl("h4", { text: formatProgress(progress) });
+    if (progress.total > 0) {
+      const [value, max] = progress.bytesTotal > 0
+        ? [progress.bytesDone, progress.bytesTotal]
+        : [progress.current, progress.total];
+      contentEl.createEl("progress", { attr: { value, max } });
+    }
+    if (progress.bytesTotal > 0) {
+      contentEl.createEl("p", {
+        text: `${formatBytes(progress.bytesDone)} of ${formatBytes(progress.bytesTotal)}`,
+      });
+    }
+
+    const cancel = contentEl.createEl("button", { text: "Cancel sync" });
+    cancel.addEventListener("click", () => {
+      cancel.disabled = true;
+      cancel.setText("Cancelling...");
+      this.onCancel();
+    });
+  }
+}
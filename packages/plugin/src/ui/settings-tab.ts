@@ -1,9 +1,14 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type R2SyncPlugin from "../main.js";
 
 export class R2SyncSettingsTab extends PluginSettingTab {
   plugin: R2SyncPlugin;
   private resetTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Token as typed, applied only by the "Set token" button */
+  private tokenDraft = "";
+  /** Passphrase as typed, applied only by the "Set passphrase" button */
+  private passphraseDraft = "";
+  private passphraseConfirm = "";
 
   constructor(app: App, plugin: R2SyncPlugin) {
     super(app, plugin);
@@ -17,6 +22,9 @@ export class R2SyncSettingsTab extends PluginSettingTab {
       this.resetTimer = null;
     }
     containerEl.empty();
+    this.tokenDraft = this.plugin.settings.token;
+    this.passphraseDraft = this.plugin.settings.encryptionPassphrase;
+    this.passphraseConfirm = this.plugin.settings.encryptionPassphrase;
 
     containerEl.createEl("h2", { text: "R2 Vault Sync Settings" });
 
@@ -35,20 +43,65 @@ export class R2SyncSettingsTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("Auth token")
-      .setDesc("Device authentication token from the CLI setup")
+      .setDesc("Device authentication token from the CLI setup. Paste it, then apply it.")
       .addText((text) =>
         text
           .setPlaceholder("device-xxxx:hmac...")
           .setValue(this.plugin.settings.token)
-          .onChange(async (value) => {
-            this.plugin.settings.token = value.trim();
-            await this.plugin.saveSettings();
+          .onChange((value) => {
+            this.tokenDraft = value;
           }),
+      )
+      .addButton((button) =>
+        button.setButtonText("Set token").onClick(async () => {
+          await this.plugin.setToken(this.tokenDraft.trim());
+          new Notice("R2 Sync: Auth token set");
+        }),
+      );
+
+    new Setting(containerEl)
+      .setName("Encryption passphrase")
+      .setDesc(
+        "Encrypts file contents and names before they leave this device. Use the same passphrase on every device. " +
+        "Can only be turned on for an empty vault, and a lost passphrase cannot be recovered.",
+      )
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text
+          .setPlaceholder("Leave empty for no encryption")
+          .setValue(this.plugin.settings.encryptionPassphrase)
+          .onChange((value) => {
+            this.passphraseDraft = value;
+            this.updatePassphraseEditing();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Confirm passphrase")
+      .setDesc("Type the passphrase again, then apply it. Syncing waits until it is applied.")
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.setValue(this.plugin.settings.encryptionPassphrase).onChange((value) => {
+          this.passphraseConfirm = value;
+          this.updatePassphraseEditing();
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("Set passphrase").onClick(async () => {
+          if (this.passphraseDraft !== this.passphraseConfirm) {
+            new Notice("R2 Sync: The passphrases don't match");
+            return;
+          }
+          await this.plugin.setPassphrase(this.passphraseDraft);
+          new Notice(
+            this.passphraseDraft ? "R2 Sync: Encryption passphrase set" : "R2 Sync: Encryption passphrase cleared",
+          );
+        }),
       );
 
     new Setting(containerEl)
       .setName("Sync interval (seconds)")
-      .setDesc("How often to sync automatically. Set to 0 for manual-only sync.")
+      .setDesc("How often to run a full sync, which also pulls changes from other devices. Set to 0 for manual-only sync.")
       .addText((text) =>
         text
           .setValue(String(this.plugin.settings.syncInterval))
@@ -78,6 +131,36 @@ export class R2SyncSettingsTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(containerEl)
+      .setName("Confirm deletions above (files)")
+      .setDesc("Ask before a sync deletes more than this many files. Set to 0 for no limit.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.deleteThresholdCount))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.deleteThresholdCount = num;
+              await this.plugin.saveSettings();
+            }
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Confirm deletions above (% of vault)")
+      .setDesc("Ask before a sync deletes more than this share of the vault. Set to 0 for no limit.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.deleteThresholdPercent))
+          .onChange(async (value) => {
+            const num = parseFloat(value);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.deleteThresholdPercent = num;
+              await this.plugin.saveSettings();
+            }
+          }),
+      );
+
     new Setting(containerEl)
       .setName("Exclude patterns")
       .setDesc("Glob patterns to exclude from sync (one per line)")
@@ -93,6 +176,18 @@ export class R2SyncSettingsTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(containerEl)
+      .setName("Sync on change")
+      .setDesc("Push files a few seconds after they are created, modified, deleted or renamed")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syncOnChange)
+          .onChange(async (value) => {
+            this.plugin.settings.syncOnChange = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
     new Setting(containerEl)
       .setName("Sync on file open")
       .setDesc("Check for remote changes when opening a file (adds slight delay)")
@@ -139,5 +234,12 @@ export class R2SyncSettingsTab extends PluginSettingTab {
       clearTimeout(this.resetTimer);
       this.resetTimer = null;
     }
+    // Unapplied edits are discarded when the settings close
+    this.plugin.setEditingPassphrase(false);
+  }
+
+  private updatePassphraseEditing(): void {
+    const current = this.plugin.settings.encryptionPassphrase;
+    this.plugin.setEditingPassphrase(this.passphraseDraft !== current || this.passphraseConfirm !== current);
   }
 }
@@ -1,3 +1,6 @@
+import type { SyncProgress } from "@obsidian-r2-sync/shared";
+import { formatProgress } from "../sync/progress.js";
+
 /**
  * Manages the sync status indicator in Obsidian's status bar.
  */
@@ -20,6 +23,20 @@ export class StatusBar {
     this.el.setAttribute("aria-label", "R2 Sync: Syncing...");
   }
 
+  setProgress(progress: SyncProgress): void {
+    this.el.addClass("is-syncing");
+    this.el.removeClass("is-error");
+    this.el.setText(progress.total > 0 ? `R2 ↻ ${progress.current}/${progress.total}` : "R2 ↻");
+    this.el.setAttribute("aria-label", `R2 Sync: ${formatProgress(progress)}`);
+  }
+
+  setCancelling(): void {
+    this.el.addClass("is-syncing");
+    this.el.removeClass("is-error");
+    this.el.setText("R2 ⏹");
+    this.el.setAttribute("aria-label", "R2 Sync: Cancelling...");
+  }
+
   setError(): void {
     this.el.addClass("is-error");
     this.el.removeClass("is-syncing");
@@ -0,0 +1,136 @@
+import { Modal, App } from "obsidian";
+import type { DiffResult } from "@obsidian-r2-sync/shared";
+import { describeConflict } from "../sync/differ.js";
+import { formatBytes } from "../sync/progress.js";
+
+export type PreviewDecision =
+  | { action: "apply" }
+  | { action: "apply-selected"; paths: Set<string> }
+  | { action: "cancel" };
+
+interface PreviewItem {
+  /** Path used for selection (for renames, the destination) */
+  path: string;
+  label: string;
+}
+
+/**
+ * Modal showing what a sync cycle would do, before anything is changed.
+ * Lets the user apply everything, apply only the checked items, or cancel.
+ */
+export class SyncPreviewModal extends Modal {
+  private diff: DiffResult;
+  private selected = new Set<string>();
+  private resolvePromise!: (decision: PreviewDecision) => void;
+  private resolved = false;
+
+  constructor(app: App, diff: DiffResult) {
+    super(app);
+    this.diff = diff;
+  }
+
+  /**
+   * Show the modal and wait for the user's decision.
+   */
+  async waitForDecision(): Promise<PreviewDecision> {
+    return new Promise((resolve) => {
+      this.resolvePromise = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    const { diff } = this;
+    contentEl.addClass("r2-sync-preview-modal");
+
+    contentEl.createEl("h2", { text: "Sync preview" });
+
+    const uploadBytes = diff.toUpload.reduce((sum, entry) => sum + entry.size, 0);
+    const downloadBytes = diff.toDownload.reduce((sum, entry) => sum + entry.size, 0);
+    contentEl.createEl("p", {
+      text:
+        `Upload ${formatBytes(uploadBytes)}, download ${formatBytes(downloadBytes)}. ` +
+        "Uncheck anything you don't want to apply yet.",
+    });
+
+    this.renderSection(
+      `Upload (${diff.toUpload.length}, ${formatBytes(uploadBytes)})`,
+      diff.toUpload.map((e) => ({ path: e.path, label: `${e.path} (${formatBytes(e.size)})` })),
+    );
+    this.renderSection(
+      `Download (${diff.toDownload.length}, ${formatBytes(downloadBytes)})`,
+      diff.toDownload.map((e) => ({ path: e.path, label: `${e.path} (${formatBytes(e.size)})` })),
+    );
+    this.renderSection(
+      `Rename (${diff.toRename.length})`,
+      diff.toRename.map((r) => ({
+        path: r.to,
+        label: `${r.from} → ${r.to} (${r.target === "remote" ? "on remote" : "locally"})`,
+      })),
+    );
+    this.renderSection(
+      `Delete on remote (${diff.toDeleteRemote.length})`,
+      diff.toDeleteRemote.map((path) => ({ path, label: path })),
+    );
+    this.renderSection(
+      `Delete locally (${diff.toDeleteLocal.length})`,
+      diff.toDeleteLocal.map((path) => ({ path, label: path })),
+    );
+    this.renderSection(
+      `Conflicts (${diff.conflicts.length})`,
+      diff.conflicts.map((c) => ({ path: c.path, label: `${c.path} — ${describeConflict(c)}` })),
+    );
+
+    // Action buttons — listeners are cleaned up when onClose() empties contentEl
+    const actions = contentEl.createEl("div", { cls: "preview-actions" });
+
+    const cancelBtn = actions.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.finish({ action: "cancel" }));
+
+    const applySelectedBtn = actions.createEl("button", { text: "Apply selected" });
+    applySelectedBtn.addEventListener("click", () =>
+      this.finish({ action: "apply-selected", paths: new Set(this.selected) }),
+    );
+
+    const applyBtn = actions.createEl("button", { text: "Apply all", cls: "mod-cta" });
+    applyBtn.addEventListener("click", () => this.finish({ action: "apply" }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    // Closing without choosing (Escape, click outside) applies nothing
+    if (!this.resolved) {
+      this.resolved = true;
+      this.resolvePromise({ action: "cancel" });
+    }
+  }
+
+  private renderSection(title: string, items: PreviewItem[]): void {
+    if (items.length === 0) return;
+
+    this.contentEl.createEl("h3", { text: title });
+    const list = this.contentEl.createEl("div", { cls: "preview-list" });
+
+    for (const item of items) {
+      this.selected.add(item.path);
+      const row = list.createEl("label", { cls: "preview-item" });
+      const checkbox = row.createEl("input", { type: "checkbox" });
+      checkbox.checked = true;
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) {
+          this.selected.add(item.path);
+        } else {
+          this.selected.delete(item.path);
+        }
+      });
+      row.createSpan({ text: ` ${item.label}` });
+    }
+  }
+
+  private finish(decision: PreviewDecision): void {
+    this.resolved = true;
+    this.resolvePromise(decision);
+    this.close();
+  }
+}
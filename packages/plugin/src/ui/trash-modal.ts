@@ -0,0 +1,34 @@
+import { SuggestModal, App } from "obsidian";
+import type { TrashEntry } from "@obsidian-r2-sync/shared";
+
+/**
+ * Fuzzy picker over the files in the remote trash.
+ */
+export class TrashModal extends SuggestModal<TrashEntry> {
+  constructor(
+    app: App,
+    private entries: TrashEntry[],
+    private onChoose: (entry: TrashEntry) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a deleted file to restore");
+  }
+
+  getSuggestions(query: string): TrashEntry[] {
+    const needle = query.toLowerCase();
+    return this.entries
+      .filter((entry) => entry.path.toLowerCase().includes(needle))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  renderSuggestion(entry: TrashEntry, el: HTMLElement): void {
+    el.createEl("div", { text: entry.path });
+    el.createEl("small", {
+      text: `Deleted ${new Date(entry.deletedAt).toLocaleString()} by ${entry.deletedBy || "unknown device"}`,
+    });
+  }
+
+  onChooseSuggestion(entry: TrashEntry): void {
+    this.onChoose(entry);
+  }
+}
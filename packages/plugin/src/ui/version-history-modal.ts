@@ -0,0 +1,36 @@
+import { SuggestModal, App } from "obsidian";
+import type { VersionEntry } from "@obsidian-r2-sync/shared";
+
+/**
+ * Picker over the previous versions of a file, newest first.
+ */
+export class VersionHistoryModal extends SuggestModal<VersionEntry> {
+  constructor(
+    app: App,
+    private versions: VersionEntry[],
+    private onChoose: (version: VersionEntry) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a version to preview");
+  }
+
+  getSuggestions(query: string): VersionEntry[] {
+    const needle = query.toLowerCase();
+    return this.versions.filter((version) => describe(version).toLowerCase().includes(needle));
+  }
+
+  renderSuggestion(version: VersionEntry, el: HTMLElement): void {
+    el.createEl("div", { text: describe(version) });
+    el.createEl("small", { text: `${version.size} bytes · ${version.hash.slice(0, 12)}` });
+  }
+
+  onChooseSuggestion(version: VersionEntry): void {
+    this.onChoose(version);
+  }
+}
+
+function describe(version: VersionEntry): string {
+  return version.archivedAt
+    ? `Replaced ${new Date(version.archivedAt).toLocaleString()}`
+    : "Replaced at an unknown time";
+}
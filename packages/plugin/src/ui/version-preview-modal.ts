@@ -0,0 +1,81 @@
+import { Modal, App } from "obsidian";
+import type { VersionEntry } from "@obsidian-r2-sync/shared";
+
+/** Extensions whose content is shown as text in the preview */
+const TEXT_EXTENSIONS = new Set(["md", "txt", "json", "canvas", "css", "js", "csv"]);
+
+/**
+ * Modal showing a previous version of a file, with the option to restore it.
+ */
+export class VersionPreviewModal extends Modal {
+  private resolvePromise!: (restore: boolean) => void;
+  private resolved = false;
+
+  constructor(
+    app: App,
+    private path: string,
+    private version: VersionEntry,
+    private content: ArrayBuffer,
+  ) {
+    super(app);
+  }
+
+  /**
+   * Show the modal and wait for the user to restore the version or close it.
+   */
+  async waitForDecision(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolvePromise = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass("r2-sync-version-preview-modal");
+
+    contentEl.createEl("h2", { text: this.path });
+    contentEl.createEl("p", {
+      text: this.version.archivedAt
+        ? `Version replaced ${new Date(this.version.archivedAt).toLocaleString()}`
+        : "Version replaced at an unknown time",
+    });
+
+    const extension = this.path.substring(this.path.lastIndexOf(".") + 1).toLowerCase();
+    if (TEXT_EXTENSIONS.has(extension)) {
+      contentEl.createEl("pre", {
+        text: new TextDecoder().decode(this.content),
+        cls: "version-preview-content",
+      });
+    } else {
+      contentEl.createEl("p", { text: `Binary file, ${this.content.byteLength} bytes.` });
+    }
+
+    contentEl.createEl("p", {
+      text: "Restoring replaces the current content; the current content is kept as a version.",
+    });
+
+    // Action buttons — listeners are cleaned up when onClose() empties contentEl
+    const actions = contentEl.createEl("div", { cls: "version-preview-actions" });
+
+    const closeBtn = actions.createEl("button", { text: "Close" });
+    closeBtn.addEventListener("click", () => this.finish(false));
+
+    const restoreBtn = actions.createEl("button", { text: "Restore this version", cls: "mod-cta" });
+    restoreBtn.addEventListener("click", () => this.finish(true));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.resolved) {
+      this.resolved = true;
+      this.resolvePromise(false);
+    }
+  }
+
+  private finish(restore: boolean): void {
+    this.resolved = true;
+    this.resolvePromise(restore);
+    this.close();
+  }
+}
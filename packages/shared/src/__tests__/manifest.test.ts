@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { diffManifests, applyDiffToManifest } from "../manifest.js";
+import { diffManifests, applyDiffToManifest, nextRevision } from "../manifest.js";
 import type { FileEntry, SyncManifest, DiffResult } from "../types.js";
 
 /* ------------------------------------------------------------------ */
@@ -152,6 +152,66 @@ describe("diffManifests", () => {
     expect(result.conflicts).toHaveLength(0);
   });
 
+  it("deletes locally on first sync (null base) when a tombstone matches the local content", () => {
+    const local = manifest({ "gone.md": entry("gone.md", "old"), "edited.md": entry("edited.md", "newer") });
+    const remote: SyncManifest = {
+      ...EMPTY,
+      tombstones: {
+        "gone.md": { path: "gone.md", hash: "old", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-b" },
+        "edited.md": { path: "edited.md", hash: "older", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-b" },
+      },
+    };
+
+    const result = diffManifests(local, remote, null);
+    expect(result.toDeleteLocal).toEqual(["gone.md"]);
+    // Content differs from what was deleted — keep it
+    expect(result.toUpload.map((e) => e.path)).toEqual(["edited.md"]);
+  });
+
+  it("ignores tombstones when the base shows the path is new locally", () => {
+    const local = manifest({ "restored.md": entry("restored.md", "old") });
+    const remote: SyncManifest = {
+      ...EMPTY,
+      tombstones: {
+        "restored.md": { path: "restored.md", hash: "old", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-b" },
+      },
+    };
+
+    const result = diffManifests(local, remote, EMPTY);
+    expect(result.toUpload).toHaveLength(1);
+    expect(result.toDeleteLocal).toHaveLength(0);
+  });
+
+  it("conflicts with a stale-base reason when the remote is behind the base revision", () => {
+    const base = manifest({ "a.md": entry("a.md", "synced", { rev: 5 }) });
+    const local = manifest({ "a.md": entry("a.md", "synced") });
+    // Remote restored from an older copy
+    const remote = manifest({ "a.md": entry("a.md", "older", { rev: 3 }) });
+
+    const result = diffManifests(local, remote, base);
+    expect(result.toDownload).toHaveLength(0);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]!.reason).toBe("stale-base");
+  });
+
+  it("fast-forwards when the remote is ahead of the base revision", () => {
+    const base = manifest({ "a.md": entry("a.md", "synced", { rev: 5 }) });
+    const local = manifest({ "a.md": entry("a.md", "synced") });
+    const remote = manifest({ "a.md": entry("a.md", "newer", { rev: 6 }) });
+
+    const result = diffManifests(local, remote, base);
+    expect(result.toDownload).toHaveLength(1);
+    expect(result.conflicts).toHaveLength(0);
+  });
+
+  it("explains conflicts between files created on both sides", () => {
+    const local = manifest({ "a.md": entry("a.md", "mine") });
+    const remote = manifest({ "a.md": entry("a.md", "theirs", { rev: 1 }) });
+
+    const result = diffManifests(local, remote, EMPTY);
+    expect(result.conflicts[0]!.reason).toBe("both-created");
+  });
+
   it("no-ops when file deleted on both sides", () => {
     const base = manifest({ "a.md": entry("a.md", "aaa") });
     const local = manifest({}); // deleted
@@ -198,6 +258,87 @@ describe("diffManifests", () => {
   });
 });
 
+describe("diffManifests — rename detection", () => {
+  it("detects a local rename → toRename targeting remote", () => {
+    const base = manifest({ "old/a.png": entry("old/a.png", "img") });
+    const local = manifest({ "new/a.png": entry("new/a.png", "img") });
+    const remote = manifest({ "old/a.png": entry("old/a.png", "img") });
+
+    const result = diffManifests(local, remote, base);
+    expect(result.toRename).toEqual([
+      { from: "old/a.png", to: "new/a.png", entry: local.files["new/a.png"], target: "remote" },
+    ]);
+    expect(result.toUpload).toHaveLength(0);
+    expect(result.toDeleteRemote).toHaveLength(0);
+  });
+
+  it("detects a remote rename → toRename targeting local", () => {
+    const base = manifest({ "old.md": entry("old.md", "text") });
+    const local = manifest({ "old.md": entry("old.md", "text") });
+    const remote = manifest({ "moved/old.md": entry("moved/old.md", "text") });
+
+    const result = diffManifests(local, remote, base);
+    expect(result.toRename).toHaveLength(1);
+    expect(result.toRename[0]!.from).toBe("old.md");
+    expect(result.toRename[0]!.to).toBe("moved/old.md");
+    expect(result.toRename[0]!.target).toBe("local");
+    expect(result.toDownload).toHaveLength(0);
+    expect(result.toDeleteLocal).toHaveLength(0);
+  });
+
+  it("detects a folder move as one rename per file", () => {
+    const files = ["a", "b", "c"];
+    const base = manifest(Object.fromEntries(files.map((f) => [`att/${f}`, entry(`att/${f}`, f)])));
+    const local = manifest(Object.fromEntries(files.map((f) => [`media/${f}`, entry(`media/${f}`, f)])));
+
+    const result = diffManifests(local, base, base);
+    expect(result.toRename.map((r) => `${r.from}→${r.to}`).sort()).toEqual([
+      "att/a→media/a",
+      "att/b→media/b",
+      "att/c→media/c",
+    ]);
+    expect(result.toUpload).toHaveLength(0);
+    expect(result.toDeleteRemote).toHaveLength(0);
+  });
+
+  it("does not pair a new file with a deletion of different content", () => {
+    const base = manifest({ "old.md": entry("old.md", "one") });
+    const local = manifest({ "new.md": entry("new.md", "two") });
+
+    const result = diffManifests(local, base, base);
+    expect(result.toRename).toHaveLength(0);
+    expect(result.toUpload.map((e) => e.path)).toEqual(["new.md"]);
+    expect(result.toDeleteRemote).toEqual(["old.md"]);
+  });
+
+  it("pairs duplicates one-to-one and uploads the rest", () => {
+    const base = manifest({ "x.md": entry("x.md", "dup") });
+    const local = manifest({
+      "y.md": entry("y.md", "dup"),
+      "z.md": entry("z.md", "dup"),
+    });
+
+    const result = diffManifests(local, base, base);
+    expect(result.toRename).toHaveLength(1);
+    expect(result.toUpload).toHaveLength(1);
+    expect(result.toDeleteRemote).toHaveLength(0);
+  });
+
+  it("does not treat a modified file as a rename destination", () => {
+    const base = manifest({
+      "a.md": entry("a.md", "A"),
+      "b.md": entry("b.md", "B"),
+    });
+    // b.md was overwritten with a.md's content, and a.md deleted
+    const local = manifest({ "b.md": entry("b.md", "A") });
+
+    const result = diffManifests(local, base, base);
+    expect(result.toRename).toHaveLength(0);
+    expect(result.toUpload.map((e) => e.path)).toEqual(["b.md"]);
+    expect(result.toDeleteRemote).toEqual(["a.md"]);
+  });
+});
+
 /* ------------------------------------------------------------------ */
 /*  applyDiffToManifest                                               */
 /* ------------------------------------------------------------------ */
@@ -216,6 +357,7 @@ describe("applyDiffToManifest", () => {
       toDeleteRemote: ["to-delete-remote.md"],
       toDeleteLocal: ["to-delete-local.md"],
       conflicts: [],
+      toRename: [],
     };
 
     const result = applyDiffToManifest(base, diff, "device-b");
@@ -241,6 +383,7 @@ describe("applyDiffToManifest", () => {
       toDeleteRemote: [],
       toDeleteLocal: [],
       conflicts: [],
+      toRename: [],
     }, "device-x");
 
     expect(result.lastUpdatedBy).toBe("device-x");
@@ -259,9 +402,40 @@ describe("applyDiffToManifest", () => {
       toDeleteRemote: ["a.md"],
       toDeleteLocal: [],
       conflicts: [],
+      toRename: [],
     }, "device-b");
 
     // Original manifest should be unchanged
     expect(base.files).toEqual(originalFiles);
   });
+
+  it("applies renames", () => {
+    const base = manifest({ "old.md": entry("old.md", "aaa") });
+
+    const result = applyDiffToManifest(base, {
+      toUpload: [],
+      toDownload: [],
+      toDeleteRemote: [],
+      toDeleteLocal: [],
+      conflicts: [],
+      toRename: [{ from: "old.md", to: "new.md", entry: entry("new.md", "aaa"), target: "remote" }],
+    }, "device-b");
+
+    expect(result.files["old.md"]).toBeUndefined();
+    expect(result.files["new.md"]!.hash).toBe("aaa");
+  });
+});
+
+describe("nextRevision", () => {
+  it("continues from the highest revision the remote, its tombstones or the base has seen", () => {
+    const remote: SyncManifest = {
+      ...manifest({ "a.md": entry("a.md", "x", { rev: 4 }) }),
+      tombstones: { "b.md": { path: "b.md", hash: "y", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "d", rev: 7 } },
+    };
+    const base = manifest({ "a.md": entry("a.md", "x", { rev: 6 }) });
+
+    expect(nextRevision("a.md", remote, base)).toBe(7);
+    expect(nextRevision("b.md", remote, null)).toBe(8);
+    expect(nextRevision("new.md", remote, base)).toBe(1);
+  });
 });
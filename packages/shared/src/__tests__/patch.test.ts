@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { applyOperations, expireTombstones, manifestOperations } from "../patch.js";
+import type { FileEntry, ManifestShard } from "../types.js";
+
+function entry(path: string, hash: string): FileEntry {
+  return { path, hash, mtime: 1000, size: 100, lastModifiedBy: "device-a" };
+}
+
+describe("manifestOperations", () => {
+  it("emits upserts and deletes for changed paths only", () => {
+    const before = { "same.md": entry("same.md", "s"), "changed.md": entry("changed.md", "old"), "gone.md": entry("gone.md", "g") };
+    const after = { "same.md": entry("same.md", "s"), "changed.md": entry("changed.md", "new"), "added.md": entry("added.md", "a") };
+
+    expect(manifestOperations(before, after)).toEqual([
+      { op: "upsert", entry: after["changed.md"], expectedHash: "old" },
+      { op: "upsert", entry: after["added.md"], expectedHash: null },
+      { op: "delete", path: "gone.md", expectedHash: "g" },
+    ]);
+  });
+});
+
+describe("applyOperations", () => {
+  it("applies operations whose preconditions hold", () => {
+    const shard: ManifestShard = { files: { "a.md": entry("a.md", "a1"), "b.md": entry("b.md", "b1") } };
+
+    const conflicts = applyOperations(shard, [
+      { op: "upsert", entry: entry("a.md", "a2"), expectedHash: "a1" },
+      { op: "upsert", entry: entry("c.md", "c1"), expectedHash: null },
+      { op: "delete", path: "b.md", expectedHash: "b1" },
+    ], "device-b");
+
+    expect(conflicts).toEqual([]);
+    expect(Object.keys(shard.files).sort()).toEqual(["a.md", "c.md"]);
+    expect(shard.files["a.md"]!.hash).toBe("a2");
+  });
+
+  it("applies nothing when any precondition fails", () => {
+    const shard: ManifestShard = { files: { "a.md": entry("a.md", "changed-elsewhere"), "b.md": entry("b.md", "b1") } };
+
+    const conflicts = applyOperations(shard, [
+      { op: "upsert", entry: entry("a.md", "a2"), expectedHash: "a1" },
+      { op: "delete", path: "b.md", expectedHash: "b1" },
+      { op: "upsert", entry: entry("b.md", "x"), expectedHash: null },
+    ], "device-b");
+
+    expect(conflicts).toEqual(["a.md", "b.md"]);
+    expect(shard.files["a.md"]!.hash).toBe("changed-elsewhere");
+    expect(shard.files["b.md"]).toBeDefined();
+    expect(shard.tombstones).toBeUndefined();
+  });
+
+  it("skips operations that are already applied, so a patch can be sent again", () => {
+    const shard: ManifestShard = { files: { "a.md": entry("a.md", "a1"), "b.md": entry("b.md", "b1") } };
+    const operations = [
+      { op: "upsert" as const, entry: entry("a.md", "a2"), expectedHash: "a1" },
+      { op: "delete" as const, path: "b.md", expectedHash: "b1" },
+    ];
+
+    expect(applyOperations(shard, operations, "device-b")).toEqual([]);
+    const tombstones = { ...shard.tombstones };
+    expect(applyOperations(shard, operations, "device-b")).toEqual([]);
+    expect(shard.files["a.md"]!.hash).toBe("a2");
+    expect(shard.tombstones).toEqual(tombstones);
+  });
+
+  it("leaves a tombstone for deleted paths and clears it when the path is written again", () => {
+    const shard: ManifestShard = { files: { "a.md": entry("a.md", "a1") } };
+
+    applyOperations(shard, [{ op: "delete", path: "a.md", expectedHash: "a1" }], "device-b", "2024-01-01T00:00:00.000Z");
+    expect(shard.tombstones).toEqual({
+      "a.md": { path: "a.md", hash: "a1", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-b" },
+    });
+
+    applyOperations(shard, [{ op: "upsert", entry: entry("a.md", "a2"), expectedHash: null }], "device-a");
+    expect(shard.tombstones).toEqual({});
+  });
+});
+
+describe("expireTombstones", () => {
+  it("drops tombstones past the retention window", () => {
+    const shard: ManifestShard = {
+      files: {},
+      tombstones: {
+        "old.md": { path: "old.md", hash: "o", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "d" },
+        "recent.md": { path: "recent.md", hash: "r", deletedAt: "2024-06-01T00:00:00.000Z", deletedBy: "d" },
+      },
+    };
+
+    expireTombstones(shard, Date.parse("2024-07-01T00:00:00.000Z"));
+    expect(Object.keys(shard.tombstones!)).toEqual(["recent.md"]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { FULL_SCOPE, isPathInScope, parseTokenScope, restrictToScope } from "../scope.js";
+import type { FileEntry, SyncManifest } from "../types.js";
+
+function entry(path: string): FileEntry {
+  return { path, hash: `hash-${path}`, mtime: 1000, size: 100, lastModifiedBy: "device-a" };
+}
+
+describe("parseTokenScope", () => {
+  it("gives a token without a scope full access", () => {
+    expect(parseTokenScope("device-a:abc123hmac")).toEqual(FULL_SCOPE);
+  });
+
+  it("reads read-only access and folder prefixes", () => {
+    expect(parseTokenScope("device-kiosk#access=read&prefix=Shared%2F&prefix=Family%20Photos%2F:abc")).toEqual({
+      readOnly: true,
+      prefixes: ["Shared/", "Family Photos/"],
+    });
+  });
+
+  it("reads a prefix-only scope as writable", () => {
+    expect(parseTokenScope("device-b#prefix=Shared%2F:abc")).toEqual({ readOnly: false, prefixes: ["Shared/"] });
+  });
+
+  it("rejects unknown parameters and values", () => {
+    expect(parseTokenScope("device-b#access=admin:abc")).toBeNull();
+    expect(parseTokenScope("device-b#path=Shared%2F:abc")).toBeNull();
+    expect(parseTokenScope("device-b#access:abc")).toBeNull();
+  });
+
+  it("rejects prefixes that are not folders inside the vault", () => {
+    expect(parseTokenScope("device-b#prefix=Shared:abc")).toBeNull();
+    expect(parseTokenScope("device-b#prefix=%2F:abc")).toBeNull();
+    expect(parseTokenScope("device-b#prefix=..%2F:abc")).toBeNull();
+    expect(parseTokenScope("device-b#prefix=%E0%A4%A:abc")).toBeNull();
+  });
+});
+
+describe("isPathInScope", () => {
+  it("allows every path without prefixes", () => {
+    expect(isPathInScope(FULL_SCOPE, "Private/diary.md")).toBe(true);
+  });
+
+  it("allows only paths inside a prefix", () => {
+    const scope = { readOnly: false, prefixes: ["Shared/"] };
+    expect(isPathInScope(scope, "Shared/list.md")).toBe(true);
+    expect(isPathInScope(scope, "SharedSecrets/list.md")).toBe(false);
+    expect(isPathInScope(scope, "Private/diary.md")).toBe(false);
+  });
+});
+
+describe("restrictToScope", () => {
+  it("keeps only the files and tombstones in scope", () => {
+    const manifest: SyncManifest = {
+      files: { "Shared/a.md": entry("Shared/a.md"), "Private/b.md": entry("Private/b.md") },
+      tombstones: {
+        "Shared/c.md": { path: "Shared/c.md", hash: "h", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-a" },
+        "Private/d.md": { path: "Private/d.md", hash: "h", deletedAt: "2024-01-01T00:00:00.000Z", deletedBy: "device-a" },
+      },
+      lastUpdated: "2024-01-01T00:00:00.000Z",
+      lastUpdatedBy: "device-a",
+    };
+
+    const restricted = restrictToScope(manifest, { readOnly: true, prefixes: ["Shared/"] });
+
+    expect(Object.keys(restricted.files)).toEqual(["Shared/a.md"]);
+    expect(Object.keys(restricted.tombstones ?? {})).toEqual(["Shared/c.md"]);
+    expect(restricted.lastUpdatedBy).toBe("device-a");
+    expect(Object.keys(manifest.files)).toHaveLength(2);
+  });
+});
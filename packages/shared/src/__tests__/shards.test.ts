@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { joinShards, serializeShard, shardIdForPath, splitManifest } from "../shards.js";
+import type { FileEntry, ManifestIndex, SyncManifest } from "../types.js";
+
+function entry(path: string, hash: string): FileEntry {
+  return { path, hash, mtime: 1000, size: 100, lastModifiedBy: "device-a" };
+}
+
+function manifest(paths: string[]): SyncManifest {
+  const files: Record<string, FileEntry> = {};
+  for (const path of paths) files[path] = entry(path, `hash-${path}`);
+  return { files, lastUpdated: "2024-01-01T00:00:00.000Z", lastUpdatedBy: "device-a" };
+}
+
+describe("shardIdForPath", () => {
+  it("returns a stable two-digit hex id", () => {
+    const id = shardIdForPath("notes/daily/2024-01-01.md");
+    expect(id).toMatch(/^[0-9a-f]{2}$/);
+    expect(shardIdForPath("notes/daily/2024-01-01.md")).toBe(id);
+  });
+
+  it("spreads paths across shards", () => {
+    const ids = new Set(Array.from({ length: 1000 }, (_, i) => shardIdForPath(`notes/${i}.md`)));
+    expect(ids.size).toBeGreaterThan(200);
+  });
+});
+
+describe("splitManifest / joinShards", () => {
+  it("round-trips a manifest through its shards", () => {
+    const original = manifest(["a.md", "b.md", "folder/c.md", "folder/d.png"]);
+    const shards = splitManifest(original);
+
+    const byHash: Record<string, { files: Record<string, FileEntry> }> = {};
+    const index: ManifestIndex = {
+      version: 2,
+      shards: {},
+      lastUpdated: original.lastUpdated,
+      lastUpdatedBy: original.lastUpdatedBy,
+    };
+    for (const [id, shard] of Object.entries(shards)) {
+      index.shards[id] = `h${id}`;
+      byHash[`h${id}`] = shard;
+    }
+
+    expect(joinShards(index, byHash)).toEqual(original);
+  });
+
+  it("serializes the same files identically regardless of insertion order", () => {
+    const forward = splitManifest(manifest(["a.md", "b.md", "c.md", "d.md", "e.md"]));
+    const backward = splitManifest(manifest(["e.md", "d.md", "c.md", "b.md", "a.md"]));
+
+    for (const id of Object.keys(forward)) {
+      expect(serializeShard(backward[id]!)).toBe(serializeShard(forward[id]!));
+    }
+  });
+
+  it("only changes the shard of a modified file", () => {
+    const before = manifest(Array.from({ length: 50 }, (_, i) => `note-${i}.md`));
+    const after: SyncManifest = JSON.parse(JSON.stringify(before));
+    after.files["note-7.md"]!.hash = "changed";
+
+    const beforeShards = splitManifest(before);
+    const afterShards = splitManifest(after);
+    const changed = Object.keys(afterShards).filter(
+      (id) => serializeShard(afterShards[id]!) !== serializeShard(beforeShards[id]!),
+    );
+
+    expect(changed).toEqual([shardIdForPath("note-7.md")]);
+  });
+
+  it("throws when a shard is missing", () => {
+    const index: ManifestIndex = {
+      version: 2,
+      shards: { "00": "missing" },
+      lastUpdated: "",
+      lastUpdatedBy: "",
+    };
+    expect(() => joinShards(index, {})).toThrow(/missing/);
+  });
+});
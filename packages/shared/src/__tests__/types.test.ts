@@ -25,4 +25,8 @@ describe("parseDeviceId", () => {
   it("returns the device ID when token has a trailing colon", () => {
     expect(parseDeviceId("device:")).toBe("device");
   });
+
+  it("leaves the scope of a scoped token out of the device ID", () => {
+    expect(parseDeviceId("device-kiosk#access=read:abc123hmac")).toBe("device-kiosk");
+  });
 });
@@ -3,18 +3,118 @@ export const PACKAGE_VERSION = "0.1.2";
 /** R2 key prefix for the sync manifest */
 export const MANIFEST_KEY = ".obsidian-r2-sync/manifest.json";
 
+/** R2 key of the sharded manifest's index */
+export const MANIFEST_INDEX_KEY = ".obsidian-r2-sync/manifest-index.json";
+
+/** R2 key prefix for manifest shards (content-addressed by hash) */
+export const MANIFEST_SHARDS_PREFIX = ".obsidian-r2-sync/shards/";
+
+/** R2 key prefix for presigned uploads waiting for their manifest update */
+export const STAGED_UPLOADS_PREFIX = ".obsidian-r2-sync/uploads/";
+
+/** How long a staged upload is kept for a manifest update to commit it */
+export const STAGED_UPLOAD_RETENTION_DAYS = 7;
+
+/** R2 key of the list of revoked devices */
+export const REVOKED_DEVICES_KEY = ".obsidian-r2-sync/revoked.json";
+
+/** `code` of the 401 returned to a revoked device */
+export const DEVICE_REVOKED_CODE = "device-revoked";
+
+/** How long admin tokens from the CLI are accepted after they are issued */
+export const ADMIN_TOKEN_MAX_AGE = 300; // 5 minutes
+
+/** Number of shards the manifest is split into */
+export const MANIFEST_SHARD_COUNT = 256;
+
+/** How long the manifest remembers deleted paths */
+export const TOMBSTONE_RETENTION_DAYS = 90;
+
 /** R2 key prefix for vault files */
 export const FILES_PREFIX = "vault/";
 
+/** R2 key prefix for deleted vault files awaiting purge */
+export const TRASH_PREFIX = "trash/";
+
+/** How long deleted files are kept in the remote trash */
+export const TRASH_RETENTION_DAYS = 30;
+
+/** R2 key prefix for content-addressed chunks of large files */
+export const CHUNKS_PREFIX = "chunks/";
+
+/**
+ * First line of the chunk list stored in place of a chunked file. The list
+ * names chunks by their R2 keys and is never encrypted, so the worker can
+ * tell which chunks are still referenced.
+ */
+export const CHUNK_LIST_MAGIC = "obsidian-r2-sync/chunks\n";
+
+/** Files larger than this are uploaded as content-defined chunks */
+export const CHUNKING_THRESHOLD = 8 * 1024 * 1024; // 8 MB
+
+/**
+ * Files larger than this are read from disk one window at a time while
+ * they are chunked, instead of whole
+ */
+export const STREAMING_THRESHOLD = 64 * 1024 * 1024; // 64 MB
+
+/** Bytes read from disk at a time when chunking a file that large */
+export const STREAMING_WINDOW_SIZE = 16 * 1024 * 1024; // 16 MB
+
+/** Content-defined chunk size bounds */
+export const CHUNK_MIN_SIZE = 256 * 1024; // 256 KB
+export const CHUNK_AVG_SIZE = 1024 * 1024; // 1 MB
+export const CHUNK_MAX_SIZE = 4 * 1024 * 1024; // 4 MB
+
+/** Maximum number of chunk hashes checked in one request */
+export const MAX_CHUNK_HASHES_PER_REQUEST = 1000;
+
+/** Maximum number of files presigned in one batch request */
+export const MAX_PRESIGN_BATCH = 100;
+
+/** R2 key prefix for previous versions of vault files */
+export const VERSIONS_PREFIX = "versions/";
+
+/** Maximum number of previous versions kept per file */
+export const VERSION_RETENTION_COUNT = 20;
+
+/** How long previous versions are kept */
+export const VERSION_RETENTION_DAYS = 90;
+
 /** API route paths */
 export const API_ROUTES = {
   HEALTH: "/health",
   MANIFEST: "/manifest",
+  MANIFEST_INDEX: "/manifest/index",
+  MANIFEST_SHARDS: "/manifest/shards",
   UPLOAD_URL: "/files/upload-url",
   DOWNLOAD_URL: "/files/download-url",
+  UPLOAD_URLS: "/files/upload-urls",
+  DOWNLOAD_URLS: "/files/download-urls",
+  FILE_OBJECT: "/files/object",
   DELETE_FILES: "/files/delete",
+  RENAME_FILES: "/files/rename",
+  TRASH: "/files/trash",
+  RESTORE_TRASH: "/files/trash/restore",
+  VERSIONS: "/files/versions",
+  VERSION_DOWNLOAD_URL: "/files/versions/download-url",
+  VERSION_OBJECT: "/files/versions/object",
+  REVOKE_DEVICE: "/admin/revoke",
+  UNREVOKE_DEVICE: "/admin/unrevoke",
+  MISSING_CHUNKS: "/chunks/missing",
+  CHUNK_UPLOAD_URL: "/chunks/upload-url",
+  CHUNK_DOWNLOAD_URL: "/chunks/download-url",
+  CHUNK_OBJECT: "/chunks/object",
+  MULTIPART_CREATE: "/files/multipart/create",
+  MULTIPART_PART_URL: "/files/multipart/part-url",
+  MULTIPART_PART: "/files/multipart/part",
+  MULTIPART_COMPLETE: "/files/multipart/complete",
+  MULTIPART_ABORT: "/files/multipart/abort",
 } as const;
 
+/** PBKDF2 iterations used to derive the encryption key from a passphrase */
+export const ENCRYPTION_KDF_ITERATIONS = 600000;
+
 /** Default sync interval in seconds */
 export const DEFAULT_SYNC_INTERVAL = 300; // 5 minutes
 
@@ -29,3 +129,15 @@ export const MAX_RETRIES = 3;
 
 /** Retry backoff base in milliseconds */
 export const RETRY_BACKOFF_MS = 1000;
+
+/** Default number of deletions in one cycle that requires confirmation */
+export const DEFAULT_DELETE_THRESHOLD_COUNT = 20;
+
+/** Default share of the vault (percent) deleted in one cycle that requires confirmation */
+export const DEFAULT_DELETE_THRESHOLD_PERCENT = 10;
+
+/** Quiet period after the last vault change before pushing changed files */
+export const CHANGE_DEBOUNCE_MS = 3000;
+
+/** Longest a vault change may wait for a push while edits keep arriving */
+export const CHANGE_MAX_WAIT_MS = 30000;
@@ -1,3 +1,6 @@
 export * from "./types.js";
 export * from "./manifest.js";
+export * from "./shards.js";
+export * from "./patch.js";
+export * from "./scope.js";
 export * from "./constants.js";
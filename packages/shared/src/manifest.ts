@@ -1,4 +1,4 @@
-import type { DiffResult, FileEntry, SyncManifest } from "./types.js";
+import type { DiffResult, FileEntry, RenameEntry, SyncManifest } from "./types.js";
 
 /**
  * Compare local and remote manifests to produce a diff.
@@ -38,11 +38,21 @@ export function diffManifests(
         // File existed in base but was deleted remotely
         if (localChanged) {
           // Modified locally, deleted remotely → conflict
-          conflicts.push({ path, local: localEntry, remote: baseEntry, baseHash: baseEntry.hash });
+          conflicts.push({
+            path,
+            local: localEntry,
+            remote: baseEntry,
+            baseHash: baseEntry.hash,
+            baseRev: baseEntry.rev,
+            reason: "deleted-remotely",
+          });
         } else {
           // Not modified locally → accept remote deletion
           toDeleteLocal.push(path);
         }
+      } else if (!base && remote.tombstones?.[path]?.hash === localEntry.hash) {
+        // No base to compare with, but the tombstone shows this exact content was deleted remotely
+        toDeleteLocal.push(path);
       } else {
         // New local file → upload
         toUpload.push(localEntry);
@@ -52,7 +62,14 @@ export function diffManifests(
         // File existed in base but was deleted locally
         if (remoteChanged) {
           // Modified remotely, deleted locally → conflict
-          conflicts.push({ path, local: baseEntry, remote: remoteEntry, baseHash: baseEntry.hash });
+          conflicts.push({
+            path,
+            local: baseEntry,
+            remote: remoteEntry,
+            baseHash: baseEntry.hash,
+            baseRev: baseEntry.rev,
+            reason: "deleted-locally",
+          });
         } else {
           // Not modified remotely → accept local deletion
           toDeleteRemote.push(path);
@@ -67,30 +84,128 @@ export function diffManifests(
         continue;
       }
 
-      if (base) {
-        if (localChanged && !remoteChanged) {
-          // Only local changed → upload
-          toUpload.push(localEntry);
-        } else if (!localChanged && remoteChanged) {
-          // Only remote changed → download
-          toDownload.push(remoteEntry);
-        } else if (localChanged && remoteChanged) {
-          // Both changed → conflict
-          conflicts.push({ path, local: localEntry, remote: remoteEntry, baseHash: baseEntry?.hash });
-        } else {
-          // Neither changed relative to base, but hashes differ?
-          // This shouldn't happen, but treat as conflict to be safe
-          conflicts.push({ path, local: localEntry, remote: remoteEntry, baseHash: baseEntry?.hash });
-        }
-      } else {
+      if (!base) {
         // No base manifest (first sync) — if hashes differ, it's a conflict
-        conflicts.push({ path, local: localEntry, remote: remoteEntry });
+        conflicts.push({ path, local: localEntry, remote: remoteEntry, reason: "no-base" });
+      } else if (!baseEntry) {
+        // Created on both sides since the last sync
+        conflicts.push({ path, local: localEntry, remote: remoteEntry, reason: "both-created" });
+      } else if (isStaleBase(baseEntry, remoteEntry)) {
+        // The base isn't an ancestor of the remote, so hash comparisons against it mean nothing
+        conflicts.push({
+          path,
+          local: localEntry,
+          remote: remoteEntry,
+          baseHash: baseEntry.hash,
+          baseRev: baseEntry.rev,
+          reason: "stale-base",
+        });
+      } else if (localChanged && !remoteChanged) {
+        // Only local changed → upload
+        toUpload.push(localEntry);
+      } else if (!localChanged && remoteChanged) {
+        // Only remote changed → download (fast-forward)
+        toDownload.push(remoteEntry);
+      } else {
+        // Both changed → conflict
+        conflicts.push({
+          path,
+          local: localEntry,
+          remote: remoteEntry,
+          baseHash: baseEntry.hash,
+          baseRev: baseEntry.rev,
+          reason: "both-modified",
+        });
       }
     }
     // Both null: file was in base, deleted on both sides → nothing to do
   }
 
-  return { toUpload, toDownload, toDeleteRemote, toDeleteLocal, conflicts };
+  // A path deleted on one side plus a new path with the same content is a rename
+  const toRename = [
+    ...pairRenames(toUpload, toDeleteRemote, remote, "remote"),
+    ...pairRenames(toDownload, toDeleteLocal, local, "local"),
+  ];
+
+  return { toUpload, toDownload, toDeleteRemote, toDeleteLocal, conflicts, toRename };
+}
+
+/**
+ * Whether the base entry can't be an ancestor of the remote entry: the
+ * remote is at an older revision than the base, or at the same revision
+ * with different content.
+ */
+function isStaleBase(base: FileEntry, remote: FileEntry): boolean {
+  if (base.rev === undefined || remote.rev === undefined) return false;
+  return remote.rev < base.rev || (remote.rev === base.rev && remote.hash !== base.hash);
+}
+
+/**
+ * Next revision for a path written on top of `remote`: one past the
+ * highest revision the remote, its tombstone or the base has seen.
+ */
+export function nextRevision(path: string, remote: SyncManifest, base: SyncManifest | null): number {
+  return Math.max(
+    remote.files[path]?.rev ?? 0,
+    remote.tombstones?.[path]?.rev ?? 0,
+    base?.files[path]?.rev ?? 0,
+  ) + 1;
+}
+
+/**
+ * Match new files against deleted paths by content hash and turn each
+ * pair into a rename. Matched entries are removed from `added` and
+ * `deleted` in place.
+ *
+ * @param added   - New files on one side (uploads or downloads)
+ * @param deleted - Paths deleted on that same side
+ * @param other   - Manifest of the side the deletions would be applied to
+ * @param target  - Side the renames must be applied to
+ */
+function pairRenames(
+  added: FileEntry[],
+  deleted: string[],
+  other: SyncManifest,
+  target: RenameEntry["target"],
+): RenameEntry[] {
+  if (added.length === 0 || deleted.length === 0) return [];
+
+  // Deleted paths grouped by the hash they still have on the other side
+  const deletedByHash = new Map<string, string[]>();
+  for (const path of deleted) {
+    const hash = other.files[path]?.hash;
+    if (!hash) continue;
+    const paths = deletedByHash.get(hash) ?? [];
+    paths.push(path);
+    deletedByHash.set(hash, paths);
+  }
+
+  const renames: RenameEntry[] = [];
+  for (const entry of added) {
+    // Only brand-new paths can be the destination of a rename
+    if (other.files[entry.path]) continue;
+    const candidates = deletedByHash.get(entry.hash);
+    const from = candidates?.shift();
+    if (from === undefined) continue;
+    renames.push({ from, to: entry.path, entry, target });
+  }
+
+  if (renames.length > 0) {
+    const renamedTo = new Set(renames.map((r) => r.to));
+    const renamedFrom = new Set(renames.map((r) => r.from));
+    removeWhere(added, (entry) => renamedTo.has(entry.path));
+    removeWhere(deleted, (path) => renamedFrom.has(path));
+  }
+
+  return renames;
+}
+
+function removeWhere<T>(items: T[], predicate: (item: T) => boolean): void {
+  let write = 0;
+  for (const item of items) {
+    if (!predicate(item)) items[write++] = item;
+  }
+  items.length = write;
 }
 
 /**
@@ -124,6 +239,12 @@ export function applyDiffToManifest(
     delete files[path];
   }
 
+  // Apply renames (either side)
+  for (const rename of diff.toRename) {
+    delete files[rename.from];
+    files[rename.to] = rename.entry;
+  }
+
   return {
     files,
     lastUpdated: new Date().toISOString(),
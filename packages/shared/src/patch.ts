@@ -0,0 +1,97 @@
+import { TOMBSTONE_RETENTION_DAYS } from "./constants.js";
+import type { FileEntry, ManifestOperation, ManifestShard, Tombstone } from "./types.js";
+
+/**
+ * Operations that turn `before` into `after`, with `before` as the
+ * expected state of every changed path.
+ */
+export function manifestOperations(
+  before: Record<string, FileEntry>,
+  after: Record<string, FileEntry>,
+): ManifestOperation[] {
+  const operations: ManifestOperation[] = [];
+
+  for (const [path, entry] of Object.entries(after)) {
+    const previous = before[path];
+    if (!previous || !sameEntry(previous, entry)) {
+      operations.push({ op: "upsert", entry, expectedHash: previous?.hash ?? null });
+    }
+  }
+
+  for (const [path, previous] of Object.entries(before)) {
+    if (!(path in after)) {
+      operations.push({ op: "delete", path, expectedHash: previous.hash });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Apply operations to a manifest shard in place — all of them, or none if
+ * any precondition fails. Deleted paths are replaced by tombstones, and
+ * a path that is written again loses its tombstone.
+ *
+ * Operations whose result is already in place are skipped rather than
+ * treated as conflicts, so a patch that is sent again succeeds.
+ *
+ * @param deletedBy - Device recorded in the tombstones
+ * @returns Paths whose precondition failed (empty if the operations were applied)
+ */
+export function applyOperations(
+  shard: ManifestShard,
+  operations: ManifestOperation[],
+  deletedBy: string,
+  deletedAt = new Date().toISOString(),
+): string[] {
+  const { files } = shard;
+  const pending = operations.filter((operation) => !isApplied(files, operation));
+  const conflicts = pending
+    .filter((operation) => (files[operationPath(operation)]?.hash ?? null) !== operation.expectedHash)
+    .map(operationPath);
+  if (conflicts.length > 0) return conflicts;
+
+  for (const operation of pending) {
+    if (operation.op === "upsert") {
+      files[operation.entry.path] = operation.entry;
+      delete shard.tombstones?.[operation.entry.path];
+    } else {
+      const deleted = files[operation.path];
+      delete files[operation.path];
+      if (deleted) {
+        const tombstone: Tombstone = { path: operation.path, hash: deleted.hash, deletedAt, deletedBy };
+        if (deleted.rev !== undefined) {
+          tombstone.rev = deleted.rev;
+        }
+        (shard.tombstones ??= {})[operation.path] = tombstone;
+      }
+    }
+  }
+  return [];
+}
+
+/**
+ * Drop tombstones older than the retention window.
+ */
+export function expireTombstones(shard: ManifestShard, now = Date.now()): void {
+  const cutoff = now - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const [path, tombstone] of Object.entries(shard.tombstones ?? {})) {
+    if (Date.parse(tombstone.deletedAt) < cutoff) {
+      delete shard.tombstones![path];
+    }
+  }
+}
+
+export function operationPath(operation: ManifestOperation): string {
+  return operation.op === "upsert" ? operation.entry.path : operation.path;
+}
+
+function isApplied(files: Record<string, FileEntry>, operation: ManifestOperation): boolean {
+  if (operation.op === "delete") return !(operation.path in files);
+  const current = files[operation.entry.path];
+  return current !== undefined && sameEntry(current, operation.entry);
+}
+
+function sameEntry(a: FileEntry, b: FileEntry): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
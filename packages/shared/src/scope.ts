@@ -0,0 +1,73 @@
+import type { ManifestShard, TokenScope } from "./types.js";
+
+/** Scope of a token that has none: the whole vault, read and write */
+export const FULL_SCOPE: TokenScope = { readOnly: false, prefixes: [] };
+
+/**
+ * Read the scope an auth token grants.
+ *
+ * The scope is part of the signed claim, after the device ID and a "#",
+ * as URL query parameters: `access=read` for a read-only token and a
+ * `prefix` for each folder it is limited to, e.g.
+ * "device-kiosk#access=read&prefix=Shared%2F:hmacHex".
+ *
+ * @returns null if the scope can't be parsed — it must be rejected, not widened
+ */
+export function parseTokenScope(token: string): TokenScope | null {
+  const colonIndex = token.indexOf(":");
+  const claim = colonIndex === -1 ? token : token.substring(0, colonIndex);
+  const hashIndex = claim.indexOf("#");
+  if (hashIndex === -1) return FULL_SCOPE;
+
+  const scope: TokenScope = { readOnly: false, prefixes: [] };
+  for (const param of claim.substring(hashIndex + 1).split("&")) {
+    const [name, encoded, ...rest] = param.split("=");
+    if (encoded === undefined || rest.length > 0) return null;
+
+    let value: string;
+    try {
+      value = decodeURIComponent(encoded);
+    } catch {
+      return null;
+    }
+
+    if (name === "access" && (value === "read" || value === "write")) {
+      scope.readOnly = value === "read";
+    } else if (name === "prefix" && isValidPrefix(value)) {
+      scope.prefixes.push(value);
+    } else {
+      return null;
+    }
+  }
+  return scope;
+}
+
+/**
+ * Whether a vault path is inside the folders a scope is limited to.
+ */
+export function isPathInScope(scope: TokenScope, path: string): boolean {
+  return scope.prefixes.length === 0 || scope.prefixes.some((prefix) => path.startsWith(prefix));
+}
+
+/**
+ * Copy of a manifest or shard with only the files and tombstones in scope.
+ */
+export function restrictToScope<T extends ManifestShard>(manifest: T, scope: TokenScope): T {
+  if (scope.prefixes.length === 0) return manifest;
+
+  const restricted: T = { ...manifest, files: {} };
+  for (const [path, entry] of Object.entries(manifest.files)) {
+    if (isPathInScope(scope, path)) restricted.files[path] = entry;
+  }
+  if (manifest.tombstones) {
+    restricted.tombstones = {};
+    for (const [path, tombstone] of Object.entries(manifest.tombstones)) {
+      if (isPathInScope(scope, path)) restricted.tombstones[path] = tombstone;
+    }
+  }
+  return restricted;
+}
+
+function isValidPrefix(prefix: string): boolean {
+  return prefix.endsWith("/") && prefix !== "/" && !prefix.startsWith("/") && !prefix.includes("..");
+}
@@ -0,0 +1,80 @@
+import { MANIFEST_SHARD_COUNT } from "./constants.js";
+import type { ManifestIndex, ManifestShard, SyncManifest } from "./types.js";
+
+/**
+ * Shard a manifest path belongs to: FNV-1a of the path, as two hex digits.
+ *
+ * Paths are sharded as stored (encrypted paths for an encrypted vault),
+ * so the worker and every client agree without knowing the plaintext.
+ */
+export function shardIdForPath(path: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < path.length; i++) {
+    hash ^= path.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash % MANIFEST_SHARD_COUNT).toString(16).padStart(2, "0");
+}
+
+/**
+ * Split a manifest's files and tombstones into shards. Empty shards are omitted.
+ */
+export function splitManifest(manifest: SyncManifest): Record<string, ManifestShard> {
+  const shards: Record<string, ManifestShard> = {};
+  for (const path of Object.keys(manifest.files)) {
+    const id = shardIdForPath(path);
+    (shards[id] ??= { files: {} }).files[path] = manifest.files[path]!;
+  }
+  for (const [path, tombstone] of Object.entries(manifest.tombstones ?? {})) {
+    const shard = (shards[shardIdForPath(path)] ??= { files: {} });
+    (shard.tombstones ??= {})[path] = tombstone;
+  }
+  return shards;
+}
+
+/**
+ * Reassemble a manifest from its index and shards.
+ *
+ * @param shards - Shard contents keyed by shard hash
+ * @throws Error if a shard referenced by the index is missing
+ */
+export function joinShards(index: ManifestIndex, shards: Record<string, ManifestShard>): SyncManifest {
+  const manifest: SyncManifest = {
+    files: {},
+    lastUpdated: index.lastUpdated,
+    lastUpdatedBy: index.lastUpdatedBy,
+  };
+  if (index.encryption) {
+    manifest.encryption = index.encryption;
+  }
+
+  for (const [id, hash] of Object.entries(index.shards)) {
+    const shard = shards[hash];
+    if (!shard) throw new Error(`Manifest shard ${id} (${hash}) is missing`);
+    Object.assign(manifest.files, shard.files);
+    if (shard.tombstones) {
+      Object.assign((manifest.tombstones ??= {}), shard.tombstones);
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Serialize a shard, with its paths sorted. Shards are content-addressed
+ * by the SHA-256 of exactly this string.
+ */
+export function serializeShard(shard: ManifestShard): string {
+  const sorted: ManifestShard = { files: sortByPath(shard.files) };
+  if (shard.tombstones && Object.keys(shard.tombstones).length > 0) {
+    sorted.tombstones = sortByPath(shard.tombstones);
+  }
+  return JSON.stringify(sorted);
+}
+
+function sortByPath<T>(record: Record<string, T>): Record<string, T> {
+  const sorted: Record<string, T> = {};
+  for (const path of Object.keys(record).sort()) {
+    sorted[path] = record[path]!;
+  }
+  return sorted;
+}
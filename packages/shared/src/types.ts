@@ -12,6 +12,23 @@ export interface FileEntry {
   size: number;
   /** Device ID that last modified this file */
   lastModifiedBy: string;
+  /** Content-defined chunks, for large files stored as deduplicated chunks */
+  chunks?: ChunkRef[];
+  /** How the stored object is compressed (absent = stored as is) */
+  encoding?: ContentEncoding;
+  /** Revision of the path, incremented by every write (absent = written before revisions existed) */
+  rev?: number;
+}
+
+export type ContentEncoding = "gzip";
+
+/**
+ * A chunk of a large file, stored once in R2 under its hash.
+ */
+export interface ChunkRef {
+  /** SHA-256 hex hash of the chunk contents */
+  hash: string;
+  size: number;
 }
 
 /**
@@ -25,6 +42,59 @@ export interface SyncManifest {
   lastUpdated: string;
   /** Device ID that last updated the manifest */
   lastUpdatedBy: string;
+  /** Present when the vault is end-to-end encrypted (paths and hashes are then ciphertext) */
+  encryption?: EncryptionParams;
+  /** Map of recently deleted path → Tombstone */
+  tombstones?: Record<string, Tombstone>;
+}
+
+/**
+ * Record of a deleted path, so a device without a base manifest can tell
+ * "deleted remotely" from "never synced" and doesn't bring the file back.
+ */
+export interface Tombstone {
+  path: string;
+  /** Hash the file had when it was deleted */
+  hash: string;
+  /** ISO 8601 timestamp of the deletion */
+  deletedAt: string;
+  /** Device that deleted the file */
+  deletedBy: string;
+  /** Revision the file had when it was deleted, so a recreated file continues from it */
+  rev?: number;
+}
+
+/**
+ * Index of the sharded manifest. Files are split into shards by path
+ * hash, and each shard is stored once under the hash of its content,
+ * so a sync only transfers the shards that changed.
+ */
+export interface ManifestIndex {
+  version: 2;
+  /** Shard id → content hash of the shard (empty shards are omitted) */
+  shards: Record<string, string>;
+  lastUpdated: string;
+  lastUpdatedBy: string;
+  encryption?: EncryptionParams;
+}
+
+export interface ManifestShard {
+  files: Record<string, FileEntry>;
+  tombstones?: Record<string, Tombstone>;
+}
+
+/**
+ * Key derivation parameters of an encrypted vault.
+ * Stored in the manifest so every device derives the same keys.
+ */
+export interface EncryptionParams {
+  version: 1;
+  /** PBKDF2-SHA256 iteration count */
+  iterations: number;
+  /** Base64url-encoded random salt */
+  salt: string;
+  /** A known value encrypted with the derived key, to detect a wrong passphrase */
+  check: string;
 }
 
 /**
@@ -43,6 +113,14 @@ export interface SyncConfig {
   excludePatterns: string[];
   /** Whether sync-on-file-open is enabled */
   syncOnFileOpen: boolean;
+  /** Whether to push files shortly after they are created, modified, deleted or renamed */
+  syncOnChange: boolean;
+  /** Deletions per cycle (both sides combined) above which the user must confirm (0 = no limit) */
+  deleteThresholdCount: number;
+  /** Percentage of the vault deleted per cycle above which the user must confirm (0 = no limit) */
+  deleteThresholdPercent: number;
+  /** Passphrase for end-to-end encryption (empty = vault is not encrypted) */
+  encryptionPassphrase: string;
 }
 
 export type ConflictStrategy = "three-way-merge" | "keep-local" | "keep-remote" | "ask";
@@ -61,6 +139,27 @@ export interface DiffResult {
   toDeleteLocal: string[];
   /** Files modified on both sides — need conflict resolution */
   conflicts: ConflictEntry[];
+  /** Files moved on one side without changing content */
+  toRename: RenameEntry[];
+}
+
+/**
+ * A file that was moved on one side, detected by matching the hash of a
+ * removed path with the hash of a new path.
+ */
+export interface RenameEntry {
+  /** Previous vault-relative path */
+  from: string;
+  /** New vault-relative path */
+  to: string;
+  /** Entry for the file at its new path */
+  entry: FileEntry;
+  /**
+   * Side the rename still has to be applied to:
+   * "remote" — moved on this device, move the object in R2;
+   * "local"  — moved on another device, move the file in the vault.
+   */
+  target: "remote" | "local";
 }
 
 export interface ConflictEntry {
@@ -69,8 +168,28 @@ export interface ConflictEntry {
   remote: FileEntry;
   /** Base version hash (from last successful sync), if available */
   baseHash?: string;
+  /** Base revision (from last successful sync), if available */
+  baseRev?: number;
+  reason: ConflictReason;
 }
 
+/**
+ * Why a path is a conflict:
+ * - `both-modified`: changed on both sides since the last sync
+ * - `both-created`: created on both sides with different content
+ * - `deleted-remotely` / `deleted-locally`: deleted on one side, changed on the other
+ * - `no-base`: contents differ and there is no previous sync to compare with
+ * - `stale-base`: the last sync's record doesn't match the remote's history
+ *   (e.g. the remote was restored from an older copy), so it can't say who changed what
+ */
+export type ConflictReason =
+  | "both-modified"
+  | "both-created"
+  | "deleted-remotely"
+  | "deleted-locally"
+  | "no-base"
+  | "stale-base";
+
 /**
  * Sync cycle status.
  */
@@ -82,8 +201,14 @@ export type SyncStatus =
 
 export interface SyncProgress {
   phase: "comparing" | "downloading" | "uploading" | "finalizing";
+  /** Files done in this phase */
   current: number;
   total: number;
+  /** Bytes transferred in this phase (0 of 0 when the phase doesn't count bytes) */
+  bytesDone: number;
+  bytesTotal: number;
+  /** Estimated seconds left in this phase, once enough is done to estimate */
+  etaSeconds?: number;
 }
 
 /**
@@ -92,6 +217,60 @@ export interface SyncProgress {
 export interface PresignedUrlResponse {
   url: string;
   expiresAt: string;
+  /** Signed headers that must be sent with the request unchanged */
+  headers?: Record<string, string>;
+}
+
+export interface UploadUrlRequest {
+  path: string;
+  /** Content hash, stored with the object. The manifest update committing it moves the upload into place */
+  hash: string;
+  /** Base64-encoded SHA-256 of the body the upload is bound to */
+  checksum?: string;
+  encoding?: ContentEncoding;
+  /** The body is the chunk list of a large file */
+  chunked?: boolean;
+}
+
+/** Identifies a multipart upload of a file's content */
+export interface MultipartUploadRequest {
+  path: string;
+  /** Content hash, stored with the object like a single upload's */
+  hash: string;
+  uploadId: string;
+}
+
+export interface MultipartCreateRequest {
+  path: string;
+  hash: string;
+  /** Set when each part is encrypted on its own: the plaintext size of every part but the last */
+  partSize?: number;
+}
+
+export interface MultipartPartUrlRequest extends MultipartUploadRequest {
+  partNumber: number;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface MultipartCompleteRequest extends MultipartUploadRequest {
+  parts: UploadedPart[];
+}
+
+/** One result of a batch presign request: a URL, or why the path was rejected */
+export type PresignResult = PresignedUrlResponse | { error: string };
+
+export interface PresignBatchResponse {
+  /** In the order of the request */
+  results: PresignResult[];
+}
+
+/** Devices locked out without rotating the auth secret */
+export interface RevokedDevices {
+  devices: Record<string, { revokedAt: string }>;
 }
 
 export interface HealthResponse {
@@ -105,12 +284,76 @@ export interface ManifestResponse {
   etag: string;
 }
 
+/**
+ * One change to the remote manifest, applied only if the path still has
+ * the hash the client last saw (null: the path must not exist).
+ */
+export type ManifestOperation =
+  | { op: "upsert"; entry: FileEntry; expectedHash: string | null }
+  | { op: "delete"; path: string; expectedHash: string | null };
+
+export interface ManifestPatchRequest {
+  operations: ManifestOperation[];
+  /** Encryption parameters, when this patch is the first write of an encrypted vault */
+  encryption?: EncryptionParams;
+}
+
+export interface ManifestPatchResponse {
+  ok: true;
+  etag: string;
+}
+
+export interface ManifestIndexResponse {
+  index: ManifestIndex;
+  /** Null until the first manifest has been written */
+  etag: string | null;
+}
+
+export interface TrashEntry {
+  /** Vault path the file was deleted from */
+  path: string;
+  size: number;
+  /** ISO 8601 timestamp of the deletion */
+  deletedAt: string;
+  /** Device that deleted the file */
+  deletedBy: string;
+}
+
+export interface TrashListResponse {
+  files: TrashEntry[];
+}
+
+export interface VersionEntry {
+  /** Content hash of the version (SHA-256, or the R2 etag for objects uploaded without one) */
+  hash: string;
+  size: number;
+  /** ISO 8601 timestamp of when the version was replaced */
+  archivedAt: string;
+}
+
+export interface VersionListResponse {
+  /** Newest first */
+  versions: VersionEntry[];
+}
+
+/**
+ * Access granted by a device token. A token without a scope has full access.
+ */
+export interface TokenScope {
+  /** Can download, but not upload, delete or rename */
+  readOnly: boolean;
+  /** Folders (ending in "/") the token is limited to; empty for the whole vault */
+  prefixes: string[];
+}
+
 /**
  * Extract the device ID from an auth token.
- * Token format: "deviceId:hmacHex"
+ * Token format: "deviceId:hmacHex", or "deviceId#scope:hmacHex" for a scoped token
  */
 export function parseDeviceId(token: string): string {
   const colonIndex = token.indexOf(":");
   if (colonIndex === -1) return "";
-  return token.substring(0, colonIndex);
+  const claim = token.substring(0, colonIndex);
+  const hashIndex = claim.indexOf("#");
+  return hashIndex === -1 ? claim : claim.substring(0, hashIndex);
 }
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { appRequest, generateToken, createTestEnv } from "./helpers/test-app.js";
+import { DEVICE_REVOKED_CODE } from "@obsidian-r2-sync/shared";
+import { appRequest, generateAdminToken, generateToken, createTestEnv } from "./helpers/test-app.js";
 
 describe("Auth middleware", () => {
   it("returns 401 when Authorization header is missing", async () => {
@@ -46,3 +47,103 @@ describe("Auth middleware", () => {
     expect(res.status).toBe(200);
   });
 });
+
+describe("Device revocation", () => {
+  function revoke(deviceId: string, token: string, env: ReturnType<typeof createTestEnv>) {
+    return appRequest("/admin/revoke", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ deviceId }),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  it("rejects a revoked device with a specific error and keeps the others working", async () => {
+    const env = createTestEnv();
+    const lost = await generateToken("lost-phone");
+    const laptop = await generateToken("laptop");
+
+    const res = await revoke("lost-phone", await generateAdminToken(), env);
+    expect(res.status).toBe(200);
+    expect((await res.json() as { revoked: string[] }).revoked).toEqual(["lost-phone"]);
+
+    const rejected = await appRequest("/manifest", { token: lost, env });
+    expect(rejected.status).toBe(401);
+    expect((await rejected.json() as { code: string }).code).toBe(DEVICE_REVOKED_CODE);
+
+    expect((await appRequest("/manifest", { token: laptop, env })).status).toBe(200);
+  });
+
+  it("lets a revoked device sync again once it is unrevoked", async () => {
+    const env = createTestEnv();
+    const phone = await generateToken("phone");
+    await revoke("phone", await generateAdminToken(), env);
+
+    const res = await appRequest("/admin/unrevoke", {
+      method: "POST",
+      token: await generateAdminToken(),
+      env,
+      body: JSON.stringify({ deviceId: "phone" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json() as { revoked: string[] }).revoked).toEqual([]);
+    expect((await appRequest("/manifest", { token: phone, env })).status).toBe(200);
+
+    const again = await appRequest("/admin/unrevoke", {
+      method: "POST",
+      token: await generateAdminToken(),
+      env,
+      body: JSON.stringify({ deviceId: "phone" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(again.status).toBe(404);
+  });
+
+  it("only accepts fresh admin tokens", async () => {
+    const env = createTestEnv();
+
+    // A device token is not an admin token
+    expect((await revoke("laptop", await generateToken("lost-phone"), env)).status).toBe(401);
+
+    const stale = await generateAdminToken(Math.floor(Date.now() / 1000) - 3600);
+    expect((await revoke("laptop", stale, env)).status).toBe(401);
+  });
+
+  it("rejects invalid device IDs", async () => {
+    const res = await revoke("a:b", await generateAdminToken(), createTestEnv());
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("Scoped tokens", () => {
+  it("rejects a token whose scope was changed after it was signed", async () => {
+    const token = await generateToken("kiosk#access=read");
+    const widened = token.replace("#access=read", "#access=write");
+
+    expect((await appRequest("/manifest", { token, env: createTestEnv() })).status).toBe(200);
+    expect((await appRequest("/manifest", { token: widened, env: createTestEnv() })).status).toBe(401);
+  });
+
+  it("rejects a signed token with a malformed scope", async () => {
+    const res = await appRequest("/manifest", { token: await generateToken("kiosk#access=admin") });
+    expect(res.status).toBe(401);
+    expect((await res.json() as { error: string }).error).toContain("scope");
+  });
+
+  it("revokes every token of a device, whatever its scope", async () => {
+    const env = createTestEnv();
+    const kiosk = await generateToken("kiosk#access=read");
+
+    await appRequest("/admin/revoke", {
+      method: "POST",
+      token: await generateAdminToken(),
+      env,
+      body: JSON.stringify({ deviceId: "kiosk" }),
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect((await appRequest("/manifest", { token: kiosk, env })).status).toBe(401);
+  });
+});
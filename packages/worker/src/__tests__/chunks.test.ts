@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { appRequest, generateToken, createTestEnv } from "./helpers/test-app.js";
+import { MockR2Bucket } from "./helpers/mock-r2.js";
+import { CHUNK_LIST_MAGIC, STAGED_UPLOADS_PREFIX } from "@obsidian-r2-sync/shared";
+import { collectUnusedChunks } from "../chunks.js";
+
+describe("Chunk routes", () => {
+  let token: string;
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  function post(path: string, body: unknown, as = token) {
+    return appRequest(path, {
+      method: "POST",
+      token: as,
+      env,
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /** A plaintext vault's chunk: named by the hex SHA-256 of its content */
+  async function plainChunk(content: string): Promise<{ hash: string; checksum: string }> {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content)));
+    return {
+      hash: Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join(""),
+      checksum: btoa(String.fromCharCode(...digest)),
+    };
+  }
+
+  const checksum = btoa(String.fromCharCode(...new Uint8Array(32).fill(7)));
+
+  it("reports only chunks that are not stored", async () => {
+    await bucket.put("chunks/aaa", "stored");
+
+    const res = await post("/chunks/missing", { hashes: ["aaa", "bbb", "bbb"] });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { missing: string[] };
+    expect(body.missing).toEqual(["bbb"]);
+  });
+
+  it("rejects hashes that could escape the chunks prefix", async () => {
+    const res = await post("/chunks/missing", { hashes: ["../vault/note.md"] });
+    expect(res.status).toBe(400);
+
+    const upload = await post("/chunks/upload-url", { hash: "a/b" });
+    expect(upload.status).toBe(400);
+  });
+
+  it("returns 400 for an empty hashes array", async () => {
+    const res = await post("/chunks/missing", { hashes: [] });
+    expect(res.status).toBe(400);
+  });
+
+  it("issues presigned URLs under the chunks prefix", async () => {
+    const upload = await post("/chunks/upload-url", { hash: "abc123", checksum });
+    expect(upload.status).toBe(200);
+    expect((await upload.json() as { url: string }).url).toContain("chunks/abc123");
+
+    const download = await post("/chunks/download-url", { hash: "abc123" });
+    expect(download.status).toBe(200);
+    expect((await download.json() as { url: string }).url).toContain("chunks/abc123");
+  });
+
+  it("binds chunk uploads to the body checksum", async () => {
+    const upload = await post("/chunks/upload-url", { hash: "abc123", checksum });
+    expect(upload.status).toBe(200);
+    expect((await upload.json() as { headers: Record<string, string> }).headers).toEqual({
+      "x-amz-checksum-sha256": checksum,
+    });
+
+    const malformed = await post("/chunks/upload-url", { hash: "abc123", checksum: "abc" });
+    expect(malformed.status).toBe(400);
+    const missing = await post("/chunks/upload-url", { hash: "abc123" });
+    expect(missing.status).toBe(400);
+  });
+
+  it("requires a plaintext chunk's checksum to be its name", async () => {
+    const { hash, checksum: own } = await plainChunk("chunk");
+    expect((await post("/chunks/upload-url", { hash, checksum: own })).status).toBe(200);
+    expect((await post("/chunks/upload-url", { hash, checksum })).status).toBe(400);
+
+    const put = await appRequest(`/chunks/object/${hash}`, {
+      method: "PUT",
+      token,
+      env,
+      body: "other content",
+      headers: { "x-amz-checksum-sha256": checksum },
+    });
+    expect(put.status).toBe(400);
+    expect(bucket.has(`chunks/${hash}`)).toBe(false);
+  });
+
+  it("never replaces a stored chunk", async () => {
+    const { hash, checksum: own } = await plainChunk("chunk");
+    await bucket.put(`chunks/${hash}`, "chunk");
+    await bucket.put("chunks/token", "encrypted chunk");
+
+    expect((await post("/chunks/upload-url", { hash, checksum: own })).status).toBe(409);
+
+    const limited = await generateToken("laptop#prefix=Work%2F");
+    expect((await post("/chunks/upload-url", { hash: "token", checksum }, limited)).status).toBe(409);
+    const put = await appRequest("/chunks/object/token", {
+      method: "PUT",
+      token: limited,
+      env,
+      body: "replaced",
+      headers: { "x-amz-checksum-sha256": checksum },
+    });
+    expect(put.status).toBe(409);
+    expect(await (await bucket.get("chunks/token"))?.text()).toBe("encrypted chunk");
+  });
+
+  it("stores and returns chunks through the worker", async () => {
+    const { hash, checksum: own } = await plainChunk("chunk");
+    const put = await appRequest(`/chunks/object/${hash}`, {
+      method: "PUT",
+      token,
+      env,
+      body: "chunk",
+      headers: { "x-amz-checksum-sha256": own },
+    });
+    expect(put.status).toBe(200);
+
+    const get = await appRequest(`/chunks/object/${hash}`, { token, env });
+    expect(await get.text()).toBe("chunk");
+
+    const missing = await appRequest("/chunks/object/def456", { token, env });
+    expect(missing.status).toBe(404);
+  });
+
+  it("keeps read-only tokens from storing chunks", async () => {
+    const readOnly = await generateToken("kiosk#access=read");
+    const res = await appRequest("/chunks/upload-url", {
+      method: "POST",
+      token: readOnly,
+      env,
+      body: JSON.stringify({ hash: "a".repeat(64) }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(403);
+
+    expect((await appRequest(`/chunks/object/${"a".repeat(64)}`, { token: readOnly, env })).status).toBe(404);
+  });
+});
+
+describe("Chunk garbage collection", () => {
+  let token: string;
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  /** After the grace period for chunks of uploads in progress */
+  const later = Date.now() + 2 * 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  function chunkList(hashes: string[]) {
+    return CHUNK_LIST_MAGIC + JSON.stringify(hashes.map((hash) => ({ hash, size: 5 })));
+  }
+
+  it("keeps chunks referenced by the manifest or a stored chunk list", async () => {
+    for (const hash of ["current", "versioned", "trashed", "staged", "unused"]) {
+      await bucket.put(`chunks/${hash}`, "chunk");
+    }
+    const res = await appRequest("/manifest", {
+      method: "PATCH",
+      token,
+      env,
+      body: JSON.stringify({
+        operations: [
+          {
+            op: "upsert",
+            entry: {
+              path: "big.bin",
+              hash: "h2",
+              mtime: 1,
+              size: 5,
+              lastModifiedBy: "test",
+              chunks: [{ hash: "current", size: 5 }],
+            },
+            expectedHash: null,
+          },
+        ],
+      }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+    const customMetadata = { chunked: "true" };
+    await bucket.put("versions/big.bin/h1", chunkList(["versioned"]), { customMetadata });
+    await bucket.put("trash/old.bin", chunkList(["trashed"]), { customMetadata });
+    await bucket.put(`${STAGED_UPLOADS_PREFIX}new.bin/h3`, chunkList(["staged"]), { customMetadata });
+
+    await collectUnusedChunks(env.BUCKET, later);
+
+    for (const hash of ["current", "versioned", "trashed", "staged"]) {
+      expect(bucket.has(`chunks/${hash}`)).toBe(true);
+    }
+    expect(bucket.has("chunks/unused")).toBe(false);
+  });
+
+  it("keeps recent chunks, whose chunk list may not be uploaded yet", async () => {
+    await bucket.put("chunks/uploading", "chunk");
+
+    await collectUnusedChunks(env.BUCKET);
+    expect(bucket.has("chunks/uploading")).toBe(true);
+  });
+
+  it("ignores files that only look like chunk lists", async () => {
+    await bucket.put("chunks/named", "chunk");
+    await bucket.put("vault/notes.txt", chunkList(["named"]));
+
+    await collectUnusedChunks(env.BUCKET, later);
+    expect(bucket.has("chunks/named")).toBe(false);
+  });
+});
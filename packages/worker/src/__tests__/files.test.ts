@@ -1,6 +1,14 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { appRequest, generateToken, createTestEnv } from "./helpers/test-app.js";
 import { MockR2Bucket } from "./helpers/mock-r2.js";
+import {
+  MAX_PRESIGN_BATCH,
+  STAGED_UPLOAD_RETENTION_DAYS,
+  STAGED_UPLOADS_PREFIX,
+  VERSION_RETENTION_COUNT,
+} from "@obsidian-r2-sync/shared";
+import { runMaintenance } from "../scheduled.js";
+import { purgeStaleUploads } from "../uploads.js";
 
 describe("File routes — path validation", () => {
   let token: string;
@@ -90,12 +98,122 @@ describe("File routes — path validation", () => {
   });
 });
 
+describe("File routes — batch presigning", () => {
+  let token: string;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(async () => {
+    env = createTestEnv(new MockR2Bucket());
+    token = await generateToken("test-device");
+  });
+
+  function post(path: string, body: unknown) {
+    return appRequest(path, {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  it("signs every upload, with an error in place of rejected files", async () => {
+    const res = await post("/files/upload-urls", {
+      files: [
+        { path: "a.md", hash: "hash-a" },
+        { path: "../escape.md", hash: "hash-b" },
+        { path: "c.md", hash: "hash-c", encoding: "br" },
+      ],
+    });
+    expect(res.status).toBe(200);
+
+    const { results } = await res.json() as { results: Array<{ url?: string; headers?: Record<string, string>; error?: string }> };
+    expect(results).toHaveLength(3);
+    expect(results[0]!.url).toContain("uploads/a.md/hash-a");
+    expect(results[0]!.headers).toEqual({ "x-amz-meta-sha256": "hash-a" });
+    expect(results[1]!.error).toContain("traversal");
+    expect(results[2]!.error).toBe("unsupported encoding");
+  });
+
+  it("signs every download in request order", async () => {
+    const res = await post("/files/download-urls", { paths: ["a.md", ".obsidian-r2-sync/manifest.json", "b.md"] });
+    expect(res.status).toBe(200);
+
+    const { results } = await res.json() as { results: Array<{ url?: string; error?: string }> };
+    expect(results[0]!.url).toContain("vault/a.md");
+    expect(results[1]!.error).toContain("internal");
+    expect(results[2]!.url).toContain("vault/b.md");
+  });
+
+  it("rejects empty and oversized batches", async () => {
+    expect((await post("/files/download-urls", { paths: [] })).status).toBe(400);
+
+    const paths = Array.from({ length: MAX_PRESIGN_BATCH + 1 }, (_, i) => `note-${i}.md`);
+    expect((await post("/files/download-urls", { paths })).status).toBe(400);
+  });
+});
+
+describe("File routes — scoped tokens", () => {
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(() => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+  });
+
+  async function post(claim: string, path: string, body: unknown) {
+    return appRequest(path, {
+      method: "POST",
+      token: await generateToken(claim),
+      env,
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  it("lets a read-only token download but not upload, delete or rename", async () => {
+    const claim = "kiosk#access=read";
+
+    expect((await post(claim, "/files/download-url", { path: "a.md" })).status).toBe(200);
+    expect((await post(claim, "/files/upload-url", { path: "a.md", hash: "h" })).status).toBe(403);
+    expect((await post(claim, "/files/delete", { paths: ["a.md"] })).status).toBe(403);
+    expect((await post(claim, "/files/rename", { renames: [{ from: "a.md", to: "b.md" }] })).status).toBe(403);
+  });
+
+  it("limits a token to its folders, file by file in batches", async () => {
+    const claim = "family#prefix=Shared%2F";
+
+    expect((await post(claim, "/files/download-url", { path: "Private/diary.md" })).status).toBe(403);
+    expect((await post(claim, "/files/rename", { renames: [{ from: "Shared/a.md", to: "Private/a.md" }] })).status)
+      .toBe(403);
+
+    const res = await post(claim, "/files/upload-urls", {
+      files: [{ path: "Shared/list.md", hash: "h1" }, { path: "SharedSecrets/keys.md", hash: "h2" }],
+    });
+    const { results } = await res.json() as { results: Array<{ url?: string; error?: string }> };
+    expect(results[0]!.url).toContain("uploads/Shared/list.md/h1");
+    expect(results[1]!.error).toContain("folders");
+  });
+
+  it("lists only the trashed files a token's folders cover", async () => {
+    const customMetadata = { deletedAt: new Date().toISOString(), deletedBy: "device-a" };
+    await bucket.put("trash/Shared/a.md", "a", { customMetadata });
+    await bucket.put("trash/Private/b.md", "b", { customMetadata });
+
+    const res = await appRequest("/files/trash", { token: await generateToken("family#prefix=Shared%2F"), env });
+    const body = await res.json() as { files: Array<{ path: string }> };
+    expect(body.files.map((file) => file.path)).toEqual(["Shared/a.md"]);
+  });
+});
+
 describe("File routes — delete", () => {
   let token: string;
+  let bucket: MockR2Bucket;
   let env: ReturnType<typeof createTestEnv>;
 
   beforeEach(async () => {
-    const bucket = new MockR2Bucket();
+    bucket = new MockR2Bucket();
     env = createTestEnv(bucket);
     token = await generateToken("test-device");
   });
@@ -139,4 +257,649 @@ describe("File routes — delete", () => {
     expect(body.ok).toBe(true);
     expect(body.deleted).toBe(2);
   });
+
+  it("moves deleted files into the trash", async () => {
+    await bucket.put("vault/notes/a.md", "hello");
+
+    const res = await appRequest("/files/delete", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ paths: ["notes/a.md"] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    expect(bucket.has("vault/notes/a.md")).toBe(false);
+    const trashed = await bucket.get("trash/notes/a.md");
+    expect(await trashed?.text()).toBe("hello");
+    expect(trashed?.customMetadata?.deletedBy).toBe("test-device");
+    expect(trashed?.customMetadata?.deletedAt).toBeTruthy();
+  });
+});
+
+describe("File routes — trash", () => {
+  let token: string;
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  it("lists trashed files, leaving out expired ones", async () => {
+    await bucket.put("trash/recent.md", "recent", {
+      customMetadata: { deletedAt: new Date().toISOString(), deletedBy: "device-a" },
+    });
+    await bucket.put("trash/old.md", "old", {
+      customMetadata: { deletedAt: "2000-01-01T00:00:00.000Z", deletedBy: "device-a" },
+    });
+
+    const res = await appRequest("/files/trash", { token, env });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { files: Array<{ path: string; size: number; deletedBy: string }> };
+    expect(body.files).toHaveLength(1);
+    expect(body.files[0]).toMatchObject({ path: "recent.md", size: 6, deletedBy: "device-a" });
+  });
+
+  it("purges expired trash during maintenance", async () => {
+    await bucket.put("trash/recent.md", "recent", {
+      customMetadata: { deletedAt: new Date().toISOString(), deletedBy: "device-a" },
+    });
+    await bucket.put("trash/old.md", "old", {
+      customMetadata: { deletedAt: "2000-01-01T00:00:00.000Z", deletedBy: "device-a" },
+    });
+
+    await runMaintenance(env);
+    expect(bucket.has("trash/recent.md")).toBe(true);
+    expect(bucket.has("trash/old.md")).toBe(false);
+  });
+
+  it("restores trashed files to their original path", async () => {
+    await bucket.put("trash/notes/a.md", "hello", {
+      customMetadata: { deletedAt: new Date().toISOString(), deletedBy: "device-a" },
+    });
+
+    const res = await appRequest("/files/trash/restore", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ paths: ["notes/a.md", "never-deleted.md"] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { restored: number; missing: string[] };
+    expect(body.restored).toBe(1);
+    expect(body.missing).toEqual(["never-deleted.md"]);
+
+    const restored = await bucket.get("vault/notes/a.md");
+    expect(await restored?.text()).toBe("hello");
+    expect(restored?.customMetadata?.deletedAt).toBeUndefined();
+    expect(bucket.has("trash/notes/a.md")).toBe(false);
+  });
+
+  it("keeps a file recreated at the path as a version when restoring over it", async () => {
+    await bucket.put("trash/a.md", "deleted", {
+      customMetadata: { sha256: "hash-1", deletedAt: new Date().toISOString(), deletedBy: "device-a" },
+    });
+    await bucket.put("vault/a.md", "recreated", { customMetadata: { sha256: "hash-2" } });
+
+    const res = await appRequest("/files/trash/restore", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ paths: ["a.md"] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    expect(await (await bucket.get("vault/a.md"))?.text()).toBe("deleted");
+    expect(await (await bucket.get("versions/a.md/hash-2"))?.text()).toBe("recreated");
+  });
+
+  it("returns 400 when a restore path is invalid", async () => {
+    const res = await appRequest("/files/trash/restore", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ paths: ["../escape.md"] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("File routes — multipart uploads", () => {
+  let token: string;
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  function post(path: string, body: unknown, as = token) {
+    return appRequest(path, {
+      method: "POST",
+      token: as,
+      env,
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  async function create(path: string, hash: string, partSize?: number): Promise<string> {
+    const res = await post("/files/multipart/create", { path, hash, partSize });
+    expect(res.status).toBe(200);
+    return ((await res.json()) as { uploadId: string }).uploadId;
+  }
+
+  function uploadPart(path: string, hash: string, uploadId: string, partNumber: number, body: string) {
+    const query = new URLSearchParams({ path, hash, uploadId, partNumber: String(partNumber) });
+    return appRequest(`/files/multipart/part?${query}`, { method: "PUT", token, env, body });
+  }
+
+  it("stages the assembled parts for the manifest update to commit", async () => {
+    const uploadId = await create("video.mp4", "hash-1");
+    const first = await uploadPart("video.mp4", "hash-1", uploadId, 1, "part one, ");
+    const second = await uploadPart("video.mp4", "hash-1", uploadId, 2, "part two");
+    expect(first.status).toBe(200);
+
+    const complete = await post("/files/multipart/complete", {
+      path: "video.mp4",
+      hash: "hash-1",
+      uploadId,
+      parts: [
+        { partNumber: 1, etag: first.headers.get("ETag") },
+        { partNumber: 2, etag: second.headers.get("ETag") },
+      ],
+    });
+    expect(complete.status).toBe(200);
+
+    const staged = await bucket.get(`${STAGED_UPLOADS_PREFIX}video.mp4/hash-1`);
+    expect(await staged?.text()).toBe("part one, part two");
+    expect(staged?.customMetadata?.sha256).toBe("hash-1");
+    expect(bucket.has("vault/video.mp4")).toBe(false);
+  });
+
+  it("records the part size of parts encrypted on their own", async () => {
+    const uploadId = await create("video.mp4", "hash-1", 1024);
+    const part = await uploadPart("video.mp4", "hash-1", uploadId, 1, "x");
+    await post("/files/multipart/complete", {
+      path: "video.mp4",
+      hash: "hash-1",
+      uploadId,
+      parts: [{ partNumber: 1, etag: part.headers.get("ETag") }],
+    });
+
+    const staged = await bucket.get(`${STAGED_UPLOADS_PREFIX}video.mp4/hash-1`);
+    expect(staged?.customMetadata?.["part-size"]).toBe("1024");
+  });
+
+  it("presigns part uploads", async () => {
+    const res = await post("/files/multipart/part-url", {
+      path: "video.mp4",
+      hash: "hash-1",
+      uploadId: "upload-x",
+      partNumber: 3,
+    });
+    expect(res.status).toBe(200);
+
+    const { url } = await res.json() as { url: string };
+    expect(url).toContain("uploads/video.mp4/hash-1?");
+    expect(url).toContain("partNumber=3");
+    expect(url).toContain("uploadId=upload-x");
+  });
+
+  it("reports uploads that no longer exist", async () => {
+    const uploadId = await create("video.mp4", "hash-1");
+    expect((await post("/files/multipart/abort", { path: "video.mp4", hash: "hash-1", uploadId })).status).toBe(200);
+
+    expect((await uploadPart("video.mp4", "hash-1", uploadId, 1, "x")).status).toBe(404);
+    const complete = await post("/files/multipart/complete", {
+      path: "video.mp4",
+      hash: "hash-1",
+      uploadId,
+      parts: [{ partNumber: 1, etag: "etag" }],
+    });
+    expect(complete.status).toBe(404);
+  });
+
+  it("rejects invalid part numbers and read-only tokens", async () => {
+    const invalid = await post("/files/multipart/part-url", {
+      path: "video.mp4",
+      hash: "hash-1",
+      uploadId: "upload-x",
+      partNumber: 0,
+    });
+    expect(invalid.status).toBe(400);
+
+    const readOnly = await generateToken("kiosk#access=read");
+    expect((await post("/files/multipart/create", { path: "video.mp4", hash: "hash-1" }, readOnly)).status).toBe(403);
+  });
+});
+
+describe("File routes — rename", () => {
+  let token: string;
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  it("moves objects server-side", async () => {
+    await bucket.put("vault/old/a.png", "image-bytes", { customMetadata: { sha256: "abc" } });
+
+    const res = await appRequest("/files/rename", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ renames: [{ from: "old/a.png", to: "new/a.png" }] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { ok: boolean; renamed: number; missing: string[] };
+    expect(body.renamed).toBe(1);
+    expect(body.missing).toEqual([]);
+
+    expect(bucket.has("vault/old/a.png")).toBe(false);
+    const moved = await bucket.get("vault/new/a.png");
+    expect(await moved!.text()).toBe("image-bytes");
+    expect(moved!.customMetadata).toEqual({ sha256: "abc" });
+  });
+
+  it("keeps the content a rename replaces as a version", async () => {
+    await bucket.put("vault/a.md", "moved", { customMetadata: { sha256: "new" } });
+    await bucket.put("vault/b.md", "replaced", { customMetadata: { sha256: "old" } });
+
+    const res = await appRequest("/files/rename", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ renames: [{ from: "a.md", to: "b.md" }] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    expect(await (await bucket.get("vault/b.md"))!.text()).toBe("moved");
+    expect(await (await bucket.get("versions/b.md/old"))!.text()).toBe("replaced");
+  });
+
+  it("reports sources that do not exist", async () => {
+    const res = await appRequest("/files/rename", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ renames: [{ from: "ghost.md", to: "new.md" }] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { renamed: number; missing: string[] };
+    expect(body.renamed).toBe(0);
+    expect(body.missing).toEqual(["ghost.md"]);
+  });
+
+  it("returns 400 when a destination path is invalid", async () => {
+    const res = await appRequest("/files/rename", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ renames: [{ from: "a.md", to: "../escape.md" }] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 400 for an empty renames array", async () => {
+    const res = await appRequest("/files/rename", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ renames: [] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("File routes — versions", () => {
+  let token: string;
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  function requestUploadUrl(path: string, hash: string) {
+    return appRequest("/files/upload-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path, hash }),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /** Upload to a presigned URL, as R2 would store it */
+  async function upload(path: string, hash: string, content: string) {
+    await bucket.put(`${STAGED_UPLOADS_PREFIX}${path}/${hash}`, content, { customMetadata: { sha256: hash } });
+  }
+
+  function commit(path: string, hash: string, expectedHash: string | null) {
+    return appRequest("/manifest", {
+      method: "PATCH",
+      token,
+      env,
+      body: JSON.stringify({
+        operations: [
+          { op: "upsert", entry: { path, hash, mtime: 1000, size: 2, lastModifiedBy: "test" }, expectedHash },
+        ],
+      }),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  it("keeps the replaced content as a version keyed by its hash once the upload is committed", async () => {
+    await requestUploadUrl("note.md", "hash-1");
+    await upload("note.md", "hash-1", "v1");
+    expect((await commit("note.md", "hash-1", null)).status).toBe(200);
+
+    const res = await requestUploadUrl("note.md", "hash-2");
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { url: string; headers: Record<string, string> };
+    expect(body.headers).toEqual({ "x-amz-meta-sha256": "hash-2" });
+    expect(body.url).toContain("note.md/hash-2");
+    expect(bucket.has("versions/note.md/hash-1")).toBe(false);
+
+    await upload("note.md", "hash-2", "v2");
+    expect((await commit("note.md", "hash-2", "hash-1")).status).toBe(200);
+
+    const version = await bucket.get("versions/note.md/hash-1");
+    expect(await version?.text()).toBe("v1");
+    expect(version?.customMetadata?.archivedAt).toBeTruthy();
+    expect(await (await bucket.get("vault/note.md"))?.text()).toBe("v2");
+    expect(bucket.has(`${STAGED_UPLOADS_PREFIX}note.md/hash-2`)).toBe(false);
+  });
+
+  it("does not archive for uploads that are never committed", async () => {
+    await bucket.put("vault/note.md", "v1", { customMetadata: { sha256: "hash-1" } });
+
+    await requestUploadUrl("note.md", "hash-2");
+    await requestUploadUrl("note.md", "hash-3");
+    await upload("note.md", "hash-3", "v3");
+
+    expect(bucket.has("versions/note.md/hash-1")).toBe(false);
+    expect(await (await bucket.get("vault/note.md"))?.text()).toBe("v1");
+  });
+
+  it("requires the content hash", async () => {
+    const res = await appRequest("/files/upload-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("deletes staged uploads no manifest update committed in time", async () => {
+    await upload("note.md", "hash-2", "v2");
+
+    await purgeStaleUploads(env.BUCKET);
+    expect(bucket.has(`${STAGED_UPLOADS_PREFIX}note.md/hash-2`)).toBe(true);
+
+    await purgeStaleUploads(env.BUCKET, Date.now() + (STAGED_UPLOAD_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000);
+    expect(bucket.has(`${STAGED_UPLOADS_PREFIX}note.md/hash-2`)).toBe(false);
+  });
+
+  it("marks chunk lists in the upload and in proxied objects", async () => {
+    const res = await appRequest("/files/upload-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "big.bin", hash: "hash-1", chunked: true }),
+      headers: { "Content-Type": "application/json" },
+    });
+    const body = await res.json() as { headers: Record<string, string> };
+    expect(body.headers["x-amz-meta-chunked"]).toBe("true");
+
+    const put = await appRequest("/files/object/big.bin", {
+      method: "PUT",
+      token,
+      env,
+      body: "list",
+      headers: { "x-amz-meta-sha256": "hash-1", "x-amz-meta-chunked": "true" },
+    });
+    expect(put.status).toBe(200);
+    expect((await bucket.get(`${STAGED_UPLOADS_PREFIX}big.bin/hash-1`))?.customMetadata?.chunked).toBe("true");
+  });
+
+  it("signs the content encoding into the upload", async () => {
+    const res = await appRequest("/files/upload-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md", hash: "hash-1", encoding: "gzip" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { headers: Record<string, string> };
+    expect(body.headers["x-amz-meta-encoding"]).toBe("gzip");
+  });
+
+  it("binds the upload to the body checksum", async () => {
+    const checksum = btoa(String.fromCharCode(...new Uint8Array(32).fill(7)));
+    const res = await appRequest("/files/upload-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md", hash: "hash-1", checksum }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { headers: Record<string, string> };
+    expect(body.headers["x-amz-checksum-sha256"]).toBe(checksum);
+  });
+
+  it("rejects a malformed checksum", async () => {
+    const res = await appRequest("/files/upload-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md", hash: "hash-1", checksum: "not-a-sha256" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects unsupported encodings", async () => {
+    const res = await appRequest("/files/upload-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md", hash: "hash-1", encoding: "br" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("does not archive when the content is unchanged", async () => {
+    await bucket.put("vault/note.md", "v1", { customMetadata: { sha256: "hash-1" } });
+
+    await upload("note.md", "hash-1", "v1");
+    expect((await commit("note.md", "hash-1", null)).status).toBe(200);
+    expect(bucket.has("versions/note.md/hash-1")).toBe(false);
+  });
+
+  it("lists versions newest first and enforces the retention policy", async () => {
+    for (let i = 0; i <= VERSION_RETENTION_COUNT; i++) {
+      const archivedAt = new Date(Date.now() - (VERSION_RETENTION_COUNT - i) * 1000).toISOString();
+      await bucket.put(`versions/note.md/hash-${i}`, `v${i}`, { customMetadata: { archivedAt } });
+    }
+    await bucket.put("versions/note.md/ancient", "old", {
+      customMetadata: { archivedAt: "2000-01-01T00:00:00.000Z" },
+    });
+
+    const res = await appRequest("/files/versions?path=note.md", { token, env });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { versions: Array<{ hash: string }> };
+    expect(body.versions).toHaveLength(VERSION_RETENTION_COUNT);
+    expect(body.versions[0]!.hash).toBe(`hash-${VERSION_RETENTION_COUNT}`);
+    expect(bucket.has("versions/note.md/hash-0")).toBe(false);
+    expect(bucket.has("versions/note.md/ancient")).toBe(false);
+  });
+
+  it("returns 404 for an unknown version", async () => {
+    const res = await appRequest("/files/versions/download-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md", hash: "missing" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("issues a download URL for an existing version", async () => {
+    await bucket.put("versions/note.md/hash-1", "v1", { customMetadata: { archivedAt: new Date().toISOString() } });
+
+    const res = await appRequest("/files/versions/download-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md", hash: "hash-1" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { url: string };
+    expect(body.url).toContain("versions/note.md/hash-1");
+  });
+});
+
+describe("File routes — transfers through the worker", () => {
+  let token: string;
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    // No R2 API token, as after a setup that couldn't create one
+    env = { ...createTestEnv(bucket), CF_ACCESS_KEY_ID: "", CF_SECRET_ACCESS_KEY: "" };
+    token = await generateToken("test-device");
+  });
+
+  async function checksumOf(body: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body)));
+    return btoa(String.fromCharCode(...digest));
+  }
+
+  it("answers 501 for presigned URLs so clients fall back to the object routes", async () => {
+    const res = await appRequest("/files/download-url", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ path: "note.md" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(501);
+  });
+
+  function commit(path: string, hash: string, expectedHash: string | null) {
+    return appRequest("/manifest", {
+      method: "PATCH",
+      token,
+      env,
+      body: JSON.stringify({
+        operations: [
+          { op: "upsert", entry: { path, hash, mtime: 1000, size: 2, lastModifiedBy: "test" }, expectedHash },
+        ],
+      }),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  it("stores and returns objects with their metadata", async () => {
+    const put = await appRequest("/files/object/notes/my%20note.md", {
+      method: "PUT",
+      token,
+      env,
+      body: "hello",
+      headers: {
+        "x-amz-meta-sha256": "hash-1",
+        "x-amz-meta-encoding": "gzip",
+        "x-amz-checksum-sha256": await checksumOf("hello"),
+      },
+    });
+    expect(put.status).toBe(200);
+    expect((await commit("notes/my note.md", "hash-1", null)).status).toBe(200);
+    expect((await bucket.get("vault/notes/my note.md"))?.customMetadata).toEqual({ sha256: "hash-1", encoding: "gzip" });
+
+    const get = await appRequest("/files/object/notes/my%20note.md", { token, env });
+    expect(get.status).toBe(200);
+    expect(get.headers.get("x-amz-meta-encoding")).toBe("gzip");
+    expect(await get.text()).toBe("hello");
+  });
+
+  it("stages uploads like presigned ones, archiving the replaced content only when committed", async () => {
+    await bucket.put("vault/note.md", "v1", { customMetadata: { sha256: "hash-1" } });
+
+    const put = await appRequest("/files/object/note.md", {
+      method: "PUT",
+      token,
+      env,
+      body: "v2",
+      headers: { "x-amz-meta-sha256": "hash-2" },
+    });
+    expect(put.status).toBe(200);
+    expect(await (await bucket.get("vault/note.md"))?.text()).toBe("v1");
+    expect(bucket.has("versions/note.md/hash-1")).toBe(false);
+
+    expect((await commit("note.md", "hash-2", null)).status).toBe(200);
+    expect(await (await bucket.get("vault/note.md"))?.text()).toBe("v2");
+    const version = await appRequest("/files/versions/object?path=note.md&hash=hash-1", { token, env });
+    expect(await version.text()).toBe("v1");
+  });
+
+  it("rejects uploads without a hash, and bodies that don't match their checksum", async () => {
+    const unhashed = await appRequest("/files/object/note.md", { method: "PUT", token, env, body: "hello" });
+    expect(unhashed.status).toBe(400);
+
+    const res = await appRequest("/files/object/note.md", {
+      method: "PUT",
+      token,
+      env,
+      body: "corrupted",
+      headers: { "x-amz-meta-sha256": "hash-1", "x-amz-checksum-sha256": await checksumOf("hello") },
+    });
+    expect(res.status).toBe(400);
+    expect(bucket.has(`${STAGED_UPLOADS_PREFIX}note.md/hash-1`)).toBe(false);
+  });
+
+  it("validates paths and reports missing objects", async () => {
+    const internal = await appRequest("/files/object/.obsidian-r2-sync/manifest.json", { token, env });
+    expect(internal.status).toBe(400);
+
+    const missing = await appRequest("/files/object/missing.md", { token, env });
+    expect(missing.status).toBe(404);
+  });
 });
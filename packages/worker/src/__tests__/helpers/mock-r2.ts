@@ -1,37 +1,67 @@
 /**
  * In-memory mock of Cloudflare R2Bucket for testing.
- * Supports get, put, head, and delete with ETag tracking.
+ * Supports get, put, head, delete, list and multipart uploads with ETag
+ * tracking, and checks bodies against a `sha256` put option like R2 does.
  */
 
 interface StoredObject {
   body: string;
   etag: string;
   httpEtag: string;
+  uploaded: Date;
   httpMetadata?: Record<string, string>;
+  customMetadata?: Record<string, string>;
 }
 
 let etagCounter = 0;
+let uploadCounter = 0;
+
+interface MultipartUpload {
+  key: string;
+  customMetadata?: Record<string, string>;
+  parts: Map<number, { body: string; etag: string }>;
+}
 
 function generateEtag(): string {
   etagCounter++;
   return `etag-${etagCounter}-${Date.now()}`;
 }
 
+/** Read any supported R2 put value into a string body */
+async function readBody(value: string | ReadableStream | ArrayBuffer | ArrayBufferView | null): Promise<string> {
+  if (value === null) return "";
+  if (typeof value === "string") return value;
+  if (value instanceof ReadableStream) return new Response(value).text();
+  return new TextDecoder().decode(value);
+}
+
+async function sha256Hex(body: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body)));
+}
+
+function toHex(value: ArrayBuffer | string): string {
+  if (typeof value === "string") return value;
+  return Array.from(new Uint8Array(value), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
 export class MockR2Bucket {
   private store = new Map<string, StoredObject>();
+  private uploads = new Map<string, MultipartUpload>();
 
   async get(key: string): Promise<MockR2Object | null> {
     const stored = this.store.get(key);
     if (!stored) return null;
-    return new MockR2Object(stored);
+    return new MockR2Object(key, stored);
   }
 
   async put(
     key: string,
-    value: string | ReadableStream | ArrayBuffer | null,
+    value: string | ReadableStream | ArrayBuffer | ArrayBufferView | null,
     options?: {
-      onlyIf?: { etagMatches?: string };
+      onlyIf?: { etagMatches?: string; etagDoesNotMatch?: string };
       httpMetadata?: Record<string, string>;
+      customMetadata?: Record<string, string>;
+      sha256?: ArrayBuffer | string;
     },
   ): Promise<MockR2Object | null> {
     // Handle conditional put (onlyIf etagMatches)
@@ -41,23 +71,36 @@ export class MockR2Bucket {
         return null; // Condition not met
       }
     }
+    // "*" matches any object, making the put create-only
+    if (options?.onlyIf?.etagDoesNotMatch) {
+      const existing = this.store.get(key);
+      if (existing && (options.onlyIf.etagDoesNotMatch === "*" || existing.etag === options.onlyIf.etagDoesNotMatch)) {
+        return null;
+      }
+    }
+
+    const body = await readBody(value);
+    if (options?.sha256 !== undefined && (await sha256Hex(body)) !== toHex(options.sha256)) {
+      throw new Error("put: The SHA-256 checksum you specified did not match what we received.");
+    }
 
-    const body = typeof value === "string" ? value : "";
     const etag = generateEtag();
     const stored: StoredObject = {
       body,
       etag,
       httpEtag: `"${etag}"`,
+      uploaded: new Date(),
       httpMetadata: options?.httpMetadata,
+      customMetadata: options?.customMetadata,
     };
     this.store.set(key, stored);
-    return new MockR2Object(stored);
+    return new MockR2Object(key, stored);
   }
 
   async head(key: string): Promise<MockR2ObjectHead | null> {
     const stored = this.store.get(key);
     if (!stored) return null;
-    return new MockR2ObjectHead(stored);
+    return new MockR2ObjectHead(key, stored);
   }
 
   async delete(keys: string | string[]): Promise<void> {
@@ -67,38 +110,128 @@ export class MockR2Bucket {
     }
   }
 
+  async list(options?: {
+    prefix?: string;
+    limit?: number;
+    cursor?: string;
+    include?: Array<"httpMetadata" | "customMetadata">;
+  }): Promise<{ objects: MockR2ObjectHead[]; truncated: boolean; cursor?: string }> {
+    const prefix = options?.prefix ?? "";
+    const limit = options?.limit ?? 1000;
+    const start = options?.cursor ? parseInt(options.cursor, 10) : 0;
+
+    const keys = [...this.store.keys()].filter((key) => key.startsWith(prefix)).sort();
+    const page = keys.slice(start, start + limit);
+    const truncated = start + limit < keys.length;
+
+    const objects = page.map((key) => {
+      const stored = this.store.get(key)!;
+      return new MockR2ObjectHead(key, {
+        ...stored,
+        httpMetadata: options?.include?.includes("httpMetadata") ? stored.httpMetadata : undefined,
+        customMetadata: options?.include?.includes("customMetadata") ? stored.customMetadata : undefined,
+      });
+    });
+
+    return truncated
+      ? { objects, truncated, cursor: String(start + limit) }
+      : { objects, truncated };
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options?: { customMetadata?: Record<string, string> },
+  ): Promise<ReturnType<MockR2Bucket["resumeMultipartUpload"]>> {
+    const uploadId = `upload-${++uploadCounter}`;
+    this.uploads.set(uploadId, { key, customMetadata: options?.customMetadata, parts: new Map() });
+    return this.resumeMultipartUpload(key, uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string) {
+    const find = (): MultipartUpload => {
+      const upload = this.uploads.get(uploadId);
+      if (!upload || upload.key !== key) {
+        throw new Error("The specified multipart upload does not exist. (10024)");
+      }
+      return upload;
+    };
+
+    return {
+      key,
+      uploadId,
+      uploadPart: async (partNumber: number, value: string | ArrayBuffer | ArrayBufferView) => {
+        const upload = find();
+        const etag = generateEtag();
+        upload.parts.set(partNumber, { body: await readBody(value), etag });
+        return { partNumber, etag };
+      },
+      complete: async (parts: Array<{ partNumber: number; etag: string }>) => {
+        const upload = find();
+        const body = parts
+          .map(({ partNumber, etag }) => {
+            const part = upload.parts.get(partNumber);
+            if (part?.etag !== etag) throw new Error("There was a problem with the multipart upload. (10025)");
+            return part.body;
+          })
+          .join("");
+        this.uploads.delete(uploadId);
+        return this.put(key, body, { customMetadata: upload.customMetadata });
+      },
+      abort: async () => {
+        find();
+        this.uploads.delete(uploadId);
+      },
+    };
+  }
+
+  /** Whether an object exists (test assertion helper) */
+  has(key: string): boolean {
+    return this.store.has(key);
+  }
+
   /** Reset the store (for test isolation) */
   clear(): void {
     this.store.clear();
   }
 }
 
-class MockR2Object {
+class MockR2ObjectHead {
+  readonly key: string;
   readonly etag: string;
   readonly httpEtag: string;
-  private body: string;
+  readonly size: number;
+  readonly uploaded: Date;
+  readonly httpMetadata?: Record<string, string>;
+  readonly customMetadata?: Record<string, string>;
 
-  constructor(stored: StoredObject) {
+  constructor(key: string, stored: StoredObject) {
+    this.key = key;
     this.etag = stored.etag;
     this.httpEtag = stored.httpEtag;
-    this.body = stored.body;
+    this.size = new TextEncoder().encode(stored.body).byteLength;
+    this.uploaded = stored.uploaded;
+    this.httpMetadata = stored.httpMetadata;
+    this.customMetadata = stored.customMetadata;
   }
+}
 
-  async json<T = unknown>(): Promise<T> {
-    return JSON.parse(this.body) as T;
+class MockR2Object extends MockR2ObjectHead {
+  private content: string;
+
+  constructor(key: string, stored: StoredObject) {
+    super(key, stored);
+    this.content = stored.body;
   }
 
-  async text(): Promise<string> {
-    return this.body;
+  get body(): ReadableStream {
+    return new Response(this.content).body!;
   }
-}
 
-class MockR2ObjectHead {
-  readonly etag: string;
-  readonly httpEtag: string;
+  async json<T = unknown>(): Promise<T> {
+    return JSON.parse(this.content) as T;
+  }
 
-  constructor(stored: StoredObject) {
-    this.etag = stored.etag;
-    this.httpEtag = stored.httpEtag;
+  async text(): Promise<string> {
+    return this.content;
   }
 }
@@ -28,6 +28,15 @@ export async function generateToken(deviceId: string): Promise<string> {
   return `${deviceId}:${hmacHex}`;
 }
 
+/**
+ * Generate an admin token, as the CLI does.
+ * Token format: "admin:unixSeconds:hmacHex" where HMAC = SHA-256(AUTH_SECRET, "admin:unixSeconds")
+ */
+export async function generateAdminToken(issuedAt = Math.floor(Date.now() / 1000)): Promise<string> {
+  // Same HMAC as a device token, over "admin:unixSeconds"
+  return generateToken(`admin:${issuedAt}`);
+}
+
 /**
  * Create test bindings with a fresh MockR2Bucket.
  */
@@ -1,6 +1,35 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { appRequest, generateToken, createTestEnv } from "./helpers/test-app.js";
 import { MockR2Bucket } from "./helpers/mock-r2.js";
+import { collectUnusedShards } from "../shards.js";
+import {
+  MANIFEST_INDEX_KEY,
+  MANIFEST_KEY,
+  MANIFEST_SHARDS_PREFIX,
+  STAGED_UPLOADS_PREFIX,
+  joinShards,
+  serializeShard,
+} from "@obsidian-r2-sync/shared";
+import type { ManifestIndex, ManifestShard, SyncManifest } from "@obsidian-r2-sync/shared";
+
+/** Read the sharded manifest as a client does: the index, then its shards */
+async function readManifest(token: string, env: ReturnType<typeof createTestEnv>): Promise<SyncManifest> {
+  const { index } = await (await appRequest("/manifest/index", { token, env })).json() as { index: ManifestIndex };
+  const res = await appRequest("/manifest/shards", {
+    method: "POST",
+    token,
+    env,
+    body: JSON.stringify({ hashes: Object.values(index.shards) }),
+    headers: { "Content-Type": "application/json" },
+  });
+  const { shards } = await res.json() as { shards: Record<string, ManifestShard> };
+  return joinShards(index, shards);
+}
+
+async function sha256Hex(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
 
 describe("Manifest CRUD", () => {
   let bucket: MockR2Bucket;
@@ -43,6 +72,28 @@ describe("Manifest CRUD", () => {
     expect(body.etag).toBeTruthy();
   });
 
+  it("PUT moves the uploads it commits into place", async () => {
+    await bucket.put(`${STAGED_UPLOADS_PREFIX}a.md/abc`, "committed", { customMetadata: { sha256: "abc" } });
+    await bucket.put(`${STAGED_UPLOADS_PREFIX}b.md/def`, "abandoned", { customMetadata: { sha256: "def" } });
+
+    const res = await appRequest("/manifest", {
+      method: "PUT",
+      token,
+      env,
+      body: JSON.stringify({
+        files: { "a.md": { path: "a.md", hash: "abc", mtime: 1000, size: 100, lastModifiedBy: "test" } },
+        lastUpdated: new Date().toISOString(),
+        lastUpdatedBy: "test-device",
+      }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+
+    expect(await (await bucket.get("vault/a.md"))?.text()).toBe("committed");
+    expect(bucket.has(`${STAGED_UPLOADS_PREFIX}a.md/abc`)).toBe(false);
+    expect(bucket.has("vault/b.md")).toBe(false);
+  });
+
   it("GET returns stored manifest after PUT", async () => {
     const manifestData = {
       files: { "test.md": { path: "test.md", hash: "xyz", mtime: 2000, size: 200, lastModifiedBy: "test" } },
@@ -145,3 +196,326 @@ describe("Manifest CRUD", () => {
     expect(body.error).toContain("modified");
   });
 });
+
+describe("Sharded manifest", () => {
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+  let token: string;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  it("GET /index returns an empty index when nothing exists", async () => {
+    const res = await appRequest("/manifest/index", { token, env });
+    expect(res.status).toBe(200);
+
+    const body = await res.json() as { index: ManifestIndex; etag: string | null };
+    expect(body.index.shards).toEqual({});
+    expect(body.etag).toBeNull();
+  });
+
+  it("serves the shards an index references by hash", async () => {
+    const shard: ManifestShard = {
+      files: { "a.md": { path: "a.md", hash: "abc", mtime: 1000, size: 100, lastModifiedBy: "test" } },
+    };
+    const content = serializeShard(shard);
+    const hash = await sha256Hex(content);
+    await bucket.put(`${MANIFEST_SHARDS_PREFIX}${hash}`, content);
+
+    const res = await appRequest("/manifest/shards", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ hashes: [hash, "f".repeat(64)] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    const body = await res.json() as { shards: Record<string, ManifestShard>; missing: string[] };
+    expect(body.shards[hash]).toEqual(shard);
+    expect(body.missing).toEqual(["f".repeat(64)]);
+  });
+
+  it("rejects malformed shard hashes", async () => {
+    const res = await appRequest("/manifest/shards", {
+      method: "POST",
+      token,
+      env,
+      body: JSON.stringify({ hashes: ["../manifest"] }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("migrates a legacy manifest on first index read", async () => {
+    const legacy: SyncManifest = {
+      files: {
+        "a.md": { path: "a.md", hash: "abc", mtime: 1000, size: 100, lastModifiedBy: "test" },
+        "b.md": { path: "b.md", hash: "def", mtime: 1000, size: 100, lastModifiedBy: "test" },
+      },
+      lastUpdated: "2024-01-01T00:00:00.000Z",
+      lastUpdatedBy: "old-device",
+    };
+    await bucket.put(MANIFEST_KEY, JSON.stringify(legacy));
+
+    const res = await appRequest("/manifest/index", { token, env });
+    const { index: migrated, etag } = await res.json() as { index: ManifestIndex; etag: string };
+    expect(etag).toBeTruthy();
+    expect(migrated.lastUpdatedBy).toBe("old-device");
+    expect(Object.keys(migrated.shards).length).toBeGreaterThan(0);
+    expect(bucket.has(MANIFEST_KEY)).toBe(false);
+    expect(bucket.has(MANIFEST_INDEX_KEY)).toBe(true);
+
+    expect((await readManifest(token, env)).files).toEqual(legacy.files);
+
+    // Older plugins can neither read nor write it — they don't know its entry formats
+    expect((await appRequest("/manifest", { token, env })).status).toBe(410);
+
+    const putRes = await appRequest("/manifest", {
+      method: "PUT",
+      token,
+      env,
+      body: JSON.stringify(legacy),
+      headers: { "Content-Type": "application/json", "If-Match": etag },
+    });
+    expect(putRes.status).toBe(410);
+  });
+});
+
+describe("Manifest PATCH", () => {
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+  let token: string;
+
+  function file(path: string, hash: string) {
+    return { path, hash, mtime: 1000, size: 100, lastModifiedBy: "test" };
+  }
+
+  async function patch(operations: unknown[]) {
+    return appRequest("/manifest", {
+      method: "PATCH",
+      token,
+      env,
+      body: JSON.stringify({ operations }),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  async function files() {
+    return (await readManifest(token, env)).files;
+  }
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  it("creates the manifest on first write", async () => {
+    const res = await patch([{ op: "upsert", entry: file("a.md", "a1"), expectedHash: null }]);
+    expect(res.status).toBe(200);
+    expect((await res.json() as { etag: string }).etag).toBeTruthy();
+
+    expect(Object.keys(await files())).toEqual(["a.md"]);
+    const { index } = await (await appRequest("/manifest/index", { token, env })).json() as { index: ManifestIndex };
+    expect(index.lastUpdatedBy).toBe("test-device");
+  });
+
+  it("merges patches from different devices to different paths", async () => {
+    await patch([
+      { op: "upsert", entry: file("a.md", "a1"), expectedHash: null },
+      { op: "upsert", entry: file("b.md", "b1"), expectedHash: null },
+    ]);
+
+    // Both devices planned against the same manifest — neither is rejected
+    expect((await patch([{ op: "upsert", entry: file("a.md", "a2"), expectedHash: "a1" }])).status).toBe(200);
+    expect((await patch([{ op: "delete", path: "b.md", expectedHash: "b1" }])).status).toBe(200);
+
+    const result = await files();
+    expect(result["a.md"]!.hash).toBe("a2");
+    expect(result["b.md"]).toBeUndefined();
+  });
+
+  it("rejects the whole patch when a path changed, listing the conflicts", async () => {
+    await patch([{ op: "upsert", entry: file("a.md", "a1"), expectedHash: null }]);
+    await patch([{ op: "upsert", entry: file("a.md", "a2"), expectedHash: "a1" }]);
+
+    const res = await patch([
+      { op: "upsert", entry: file("a.md", "a3"), expectedHash: "a1" },
+      { op: "upsert", entry: file("c.md", "c1"), expectedHash: null },
+    ]);
+    expect(res.status).toBe(409);
+    expect((await res.json() as { conflicts: string[] }).conflicts).toEqual(["a.md"]);
+
+    const result = await files();
+    expect(result["a.md"]!.hash).toBe("a2");
+    expect(result["c.md"]).toBeUndefined();
+  });
+
+  it("applies concurrent first writes on top of each other", async () => {
+    // The other device's first write lands while this one is being written
+    const put = bucket.put.bind(bucket);
+    let raced = false;
+    bucket.put = async (...args: Parameters<MockR2Bucket["put"]>) => {
+      if (args[0] === MANIFEST_INDEX_KEY && !raced) {
+        raced = true;
+        await patch([{ op: "upsert", entry: file("b.md", "b1"), expectedHash: null }]);
+      }
+      return put(...args);
+    };
+
+    expect((await patch([{ op: "upsert", entry: file("a.md", "a1"), expectedHash: null }])).status).toBe(200);
+    expect(Object.keys(await files()).sort()).toEqual(["a.md", "b.md"]);
+  });
+
+  it("moves uploads into place only once the index is written", async () => {
+    await patch([{ op: "upsert", entry: file("a.md", "a1"), expectedHash: null }]);
+    await bucket.put("vault/a.md", "first", { customMetadata: { sha256: "a1" } });
+    await bucket.put(`${STAGED_UPLOADS_PREFIX}a.md/a2`, "second", { customMetadata: { sha256: "a2" } });
+
+    // Another device changes a.md while this patch is written, so its retry conflicts
+    const put = bucket.put.bind(bucket);
+    let raced = false;
+    bucket.put = async (...args: Parameters<MockR2Bucket["put"]>) => {
+      if (args[0] === MANIFEST_INDEX_KEY && !raced) {
+        raced = true;
+        await patch([{ op: "upsert", entry: file("a.md", "a3"), expectedHash: "a1" }]);
+      }
+      return put(...args);
+    };
+
+    const res = await patch([{ op: "upsert", entry: file("a.md", "a2"), expectedHash: "a1" }]);
+    expect(res.status).toBe(409);
+    expect(await (await bucket.get("vault/a.md"))?.text()).toBe("first");
+    expect(bucket.has("versions/a.md/a1")).toBe(false);
+    expect(bucket.has(`${STAGED_UPLOADS_PREFIX}a.md/a2`)).toBe(true);
+  });
+
+  it("moves uploads into place again when an applied patch is retried", async () => {
+    const operations = [{ op: "upsert", entry: file("a.md", "a1"), expectedHash: null }];
+    await patch(operations);
+    await bucket.put(`${STAGED_UPLOADS_PREFIX}a.md/a1`, "content", { customMetadata: { sha256: "a1" } });
+
+    expect((await patch(operations)).status).toBe(200);
+    expect(await (await bucket.get("vault/a.md"))?.text()).toBe("content");
+    expect(bucket.has(`${STAGED_UPLOADS_PREFIX}a.md/a1`)).toBe(false);
+
+    expect((await patch(operations)).status).toBe(200);
+    expect(bucket.has("versions/a.md/a1")).toBe(false);
+  });
+
+  it("records a tombstone for deleted paths and deletes replaced shards", async () => {
+    await patch([{ op: "upsert", entry: file("a.md", "a1"), expectedHash: null }]);
+    const first = await (await appRequest("/manifest/index", { token, env })).json() as { index: ManifestIndex };
+    const [shardHash] = Object.values(first.index.shards);
+
+    await patch([{ op: "delete", path: "a.md", expectedHash: "a1" }]);
+
+    const manifest = await readManifest(token, env);
+    expect(manifest.files).toEqual({});
+    expect(manifest.tombstones?.["a.md"]).toMatchObject({ hash: "a1", deletedBy: "test-device" });
+    expect(bucket.has(`${MANIFEST_SHARDS_PREFIX}${shardHash}`)).toBe(false);
+  });
+
+  it("rejects malformed operations", async () => {
+    expect((await patch([])).status).toBe(400);
+    expect((await patch([{ op: "rename", path: "a.md", expectedHash: null }])).status).toBe(400);
+  });
+});
+
+describe("Manifest with scoped tokens", () => {
+  let env: ReturnType<typeof createTestEnv>;
+  let token: string;
+
+  function file(path: string, hash: string) {
+    return { path, hash, mtime: 1000, size: 100, lastModifiedBy: "test" };
+  }
+
+  async function patch(operations: unknown[], as = token, encryption?: unknown) {
+    return appRequest("/manifest", {
+      method: "PATCH",
+      token: as,
+      env,
+      body: JSON.stringify({ operations, encryption }),
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  beforeEach(async () => {
+    env = createTestEnv(new MockR2Bucket());
+    token = await generateToken("test-device");
+    await patch([
+      { op: "upsert", entry: file("Shared/list.md", "s1"), expectedHash: null },
+      { op: "upsert", entry: file("Private/diary.md", "p1"), expectedHash: null },
+    ]);
+  });
+
+  it("shows a token only the files in its folders", async () => {
+    const family = await generateToken("family#prefix=Shared%2F");
+
+    expect(Object.keys((await readManifest(family, env)).files)).toEqual(["Shared/list.md"]);
+  });
+
+  it("rejects changes outside a token's folders, and any change by a read-only token", async () => {
+    const family = await generateToken("family#prefix=Shared%2F");
+    expect((await patch([{ op: "upsert", entry: file("Shared/list.md", "s2"), expectedHash: "s1" }], family)).status)
+      .toBe(200);
+
+    const outside = await patch([{ op: "delete", path: "Private/diary.md", expectedHash: "p1" }], family);
+    expect(outside.status).toBe(403);
+    expect((await outside.json() as { paths: string[] }).paths).toEqual(["Private/diary.md"]);
+
+    const kiosk = await generateToken("kiosk#access=read");
+    expect((await patch([{ op: "upsert", entry: file("Shared/list.md", "s3"), expectedHash: "s2" }], kiosk)).status)
+      .toBe(403);
+  });
+
+  it("refuses folder-limited tokens on an encrypted vault", async () => {
+    const encryption = { version: 1, iterations: 1000, salt: "salt", check: "check" };
+    await patch([{ op: "upsert", entry: file("token-a", "h"), expectedHash: null }], token, encryption);
+
+    const family = await generateToken("family#prefix=Shared%2F");
+    expect((await appRequest("/manifest/index", { token: family, env })).status).toBe(403);
+  });
+});
+
+describe("Shard garbage collection", () => {
+  let bucket: MockR2Bucket;
+  let env: ReturnType<typeof createTestEnv>;
+  let token: string;
+
+  /** After the grace period for shards of writes in progress */
+  const later = Date.now() + 2 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    bucket = new MockR2Bucket();
+    env = createTestEnv(bucket);
+    token = await generateToken("test-device");
+  });
+
+  it("deletes shards the index doesn't reference, once they are old enough", async () => {
+    const res = await appRequest("/manifest", {
+      method: "PATCH",
+      token,
+      env,
+      body: JSON.stringify({
+        operations: [
+          { op: "upsert", entry: { path: "a.md", hash: "a1", mtime: 1, size: 1, lastModifiedBy: "test" }, expectedHash: null },
+        ],
+      }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(res.status).toBe(200);
+    const { index } = await (await appRequest("/manifest/index", { token, env })).json() as { index: ManifestIndex };
+    const [live] = Object.values(index.shards);
+    await bucket.put(`${MANIFEST_SHARDS_PREFIX}${"0".repeat(64)}`, "{}");
+
+    await collectUnusedShards(env.BUCKET);
+    expect(bucket.has(`${MANIFEST_SHARDS_PREFIX}${"0".repeat(64)}`)).toBe(true);
+
+    await collectUnusedShards(env.BUCKET, later);
+    expect(bucket.has(`${MANIFEST_SHARDS_PREFIX}${"0".repeat(64)}`)).toBe(false);
+    expect(bucket.has(`${MANIFEST_SHARDS_PREFIX}${live}`)).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Content-addressed chunks of large files, under `chunks/<key>`. A chunk
+ * can be shared by several files and their versions, so it is only
+ * deleted once nothing refers to it.
+ */
+
+import {
+  CHUNK_LIST_MAGIC,
+  CHUNKS_PREFIX,
+  FILES_PREFIX,
+  MANIFEST_INDEX_KEY,
+  MANIFEST_KEY,
+  MANIFEST_SHARDS_PREFIX,
+  STAGED_UPLOADS_PREFIX,
+  TRASH_PREFIX,
+  VERSIONS_PREFIX,
+} from "@obsidian-r2-sync/shared";
+import type { ChunkRef, FileEntry, ManifestIndex, ManifestShard, SyncManifest } from "@obsidian-r2-sync/shared";
+
+/** Chunks this recent may belong to an upload whose chunk list isn't stored yet */
+const UPLOAD_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+/**
+ * Delete chunks that no manifest entry, stored chunk list (of a file, a
+ * previous version, a trashed copy or a staged upload) refers to.
+ */
+export async function collectUnusedChunks(bucket: R2Bucket, now = Date.now()): Promise<void> {
+  const used = await chunksInUse(bucket);
+
+  const cutoff = now - UPLOAD_GRACE_PERIOD;
+  const unused: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix: CHUNKS_PREFIX, cursor });
+    for (const object of listed.objects) {
+      if (!used.has(object.key.slice(CHUNKS_PREFIX.length)) && object.uploaded.getTime() < cutoff) {
+        unused.push(object.key);
+      }
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  // R2 deletes at most 1000 keys per call
+  for (let i = 0; i < unused.length; i += 1000) {
+    await bucket.delete(unused.slice(i, i + 1000));
+  }
+}
+
+async function chunksInUse(bucket: R2Bucket): Promise<Set<string>> {
+  const used = new Set<string>();
+  for (const entry of await manifestEntries(bucket)) {
+    for (const chunk of entry.chunks ?? []) used.add(chunk.hash);
+  }
+
+  for (const prefix of [FILES_PREFIX, VERSIONS_PREFIX, TRASH_PREFIX, STAGED_UPLOADS_PREFIX]) {
+    let cursor: string | undefined;
+    do {
+      const listed = await bucket.list({ prefix, cursor, include: ["customMetadata"] });
+      for (const object of listed.objects) {
+        if (object.customMetadata?.chunked !== "true") continue;
+        const stored = await bucket.get(object.key);
+        if (!stored) continue;
+        for (const chunk of parseChunkList(await stored.text())) used.add(chunk.hash);
+      }
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+  }
+
+  return used;
+}
+
+/** Entries of the sharded manifest, or of the legacy one before it is migrated */
+async function manifestEntries(bucket: R2Bucket): Promise<FileEntry[]> {
+  const indexObject = await bucket.get(MANIFEST_INDEX_KEY);
+  if (!indexObject) {
+    const legacy = await bucket.get(MANIFEST_KEY);
+    return legacy ? Object.values((await legacy.json<SyncManifest>()).files) : [];
+  }
+
+  const index = await indexObject.json<ManifestIndex>();
+  const entries: FileEntry[] = [];
+  for (const hash of Object.values(index.shards)) {
+    const shard = await bucket.get(`${MANIFEST_SHARDS_PREFIX}${hash}`);
+    if (shard) entries.push(...Object.values((await shard.json<ManifestShard>()).files));
+  }
+  return entries;
+}
+
+function parseChunkList(content: string): ChunkRef[] {
+  if (!content.startsWith(CHUNK_LIST_MAGIC)) return [];
+  try {
+    const chunks = JSON.parse(content.slice(CHUNK_LIST_MAGIC.length)) as ChunkRef[];
+    return Array.isArray(chunks) ? chunks : [];
+  } catch {
+    return [];
+  }
+}
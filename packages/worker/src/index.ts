@@ -1,9 +1,15 @@
 import { Hono } from "hono";
+import type { TokenScope } from "@obsidian-r2-sync/shared";
 import { cors } from "hono/cors";
-import { authMiddleware } from "./middleware/auth.js";
+import { HTTPException } from "hono/http-exception";
+import { adminMiddleware, authMiddleware } from "./middleware/auth.js";
+import { adminRoutes } from "./routes/admin.js";
 import { healthRoutes } from "./routes/health.js";
 import { manifestRoutes } from "./routes/manifest.js";
 import { fileRoutes } from "./routes/files.js";
+import { chunkRoutes } from "./routes/chunks.js";
+import { PresignNotConfiguredError } from "./presign.js";
+import { runMaintenance } from "./scheduled.js";
 
 export type Env = {
   Bindings: {
@@ -16,6 +22,7 @@ export type Env = {
   };
   Variables: {
     deviceId: string;
+    scope: TokenScope;
   };
 };
 
@@ -27,9 +34,31 @@ app.use("*", cors());
 // Health check is public
 app.route("/health", healthRoutes);
 
+// Admin routes take a token derived from the auth secret, which only the CLI has
+app.use("/admin/*", adminMiddleware);
+app.route("/admin", adminRoutes);
+
 // All other routes require auth
 app.use("*", authMiddleware);
 app.route("/manifest", manifestRoutes);
 app.route("/files", fileRoutes);
+app.route("/chunks", chunkRoutes);
+
+// Tell clients to fall back to the object routes when presigning isn't set up
+app.onError((error, c) => {
+  if (error instanceof PresignNotConfiguredError) {
+    return c.json({ error: error.message }, 501);
+  }
+  if (error instanceof HTTPException) {
+    return error.getResponse();
+  }
+  console.error(error);
+  return c.text("Internal Server Error", 500);
+});
 
-export default app;
+export default {
+  fetch: app.fetch,
+  scheduled: (_controller, env, ctx) => {
+    ctx.waitUntil(runMaintenance(env));
+  },
+} satisfies ExportedHandler<Env["Bindings"]>;
@@ -1,10 +1,29 @@
 import { createMiddleware } from "hono/factory";
+import {
+  ADMIN_TOKEN_MAX_AGE,
+  DEVICE_REVOKED_CODE,
+  REVOKED_DEVICES_KEY,
+  isPathInScope,
+  parseDeviceId,
+  parseTokenScope,
+} from "@obsidian-r2-sync/shared";
+import type { RevokedDevices, TokenScope } from "@obsidian-r2-sync/shared";
 import type { Env } from "../index.js";
 
+/** How long a worker instance reuses the revocation list it read */
+const REVOKED_CACHE_MS = 30 * 1000;
+
+/** Revocation list per bucket binding, so each environment has its own */
+const revokedCache = new WeakMap<R2Bucket, { revoked: RevokedDevices; loadedAt: number }>();
+
 /**
  * Validates Bearer tokens.
- * Token format: `<deviceId>:<hmacHex>`
- * The HMAC is SHA-256(AUTH_SECRET, deviceId).
+ * Token format: `<claim>:<hmacHex>`, where the claim is the device ID,
+ * optionally followed by the token's scope (`<deviceId>#<scope>`).
+ * The HMAC is SHA-256(AUTH_SECRET, claim), so the scope can't be altered.
+ *
+ * Tokens of revoked devices are rejected with a 401 whose `code` is
+ * DEVICE_REVOKED_CODE, so the device can tell the user why.
  */
 export const authMiddleware = createMiddleware<Env>(async (c, next) => {
   const authHeader = c.req.header("Authorization");
@@ -18,40 +37,121 @@ export const authMiddleware = createMiddleware<Env>(async (c, next) => {
     return c.json({ error: "Invalid token format" }, 401);
   }
 
-  const deviceId = token.slice(0, colonIndex);
+  const claim = token.slice(0, colonIndex);
   const providedHmac = token.slice(colonIndex + 1);
 
-  // Compute expected HMAC
+  if (!timingSafeEqual(await hmacHex(c.env.AUTH_SECRET, claim), providedHmac)) {
+    return c.json({ error: "Invalid token" }, 401);
+  }
+
+  const deviceId = parseDeviceId(token);
+  const scope = parseTokenScope(token);
+  if (!scope) {
+    return c.json({ error: "Invalid token scope" }, 401);
+  }
+
+  const revoked = await loadRevokedDevices(c.env.BUCKET);
+  if (revoked.devices[deviceId]) {
+    return c.json({ error: `Device "${deviceId}" has been revoked`, code: DEVICE_REVOKED_CODE }, 401);
+  }
+
+  // Attach device ID and scope to context for downstream use
+  c.set("deviceId", deviceId);
+  c.set("scope", scope);
+  await next();
+});
+
+/**
+ * Validates admin tokens issued by the CLI, which has the auth secret.
+ * Token format: `admin:<unixSeconds>:<hmacHex>`
+ * The HMAC is SHA-256(AUTH_SECRET, "admin:<unixSeconds>"). Device IDs
+ * can't contain ":", so no device token can pass as an admin token.
+ */
+export const adminMiddleware = createMiddleware<Env>(async (c, next) => {
+  const authHeader = c.req.header("Authorization");
+  const match = /^Bearer admin:(\d+):([0-9a-f]+)$/.exec(authHeader ?? "");
+  if (!match) {
+    return c.json({ error: "Missing or invalid admin token" }, 401);
+  }
+
+  const [, issuedAt, providedHmac] = match;
+  const age = Date.now() / 1000 - Number(issuedAt);
+  if (age > ADMIN_TOKEN_MAX_AGE || age < -ADMIN_TOKEN_MAX_AGE) {
+    return c.json({ error: "Admin token expired" }, 401);
+  }
+
+  if (!timingSafeEqual(await hmacHex(c.env.AUTH_SECRET, `admin:${issuedAt}`), providedHmac!)) {
+    return c.json({ error: "Invalid admin token" }, 401);
+  }
+
+  await next();
+});
+
+/**
+ * Check that the device's token lets it read or change a path.
+ *
+ * @returns The reason it doesn't, or null
+ */
+export function scopeError(scope: TokenScope, path: string, access: "read" | "write"): string | null {
+  if (access === "write" && scope.readOnly) {
+    return "this device's token is read-only";
+  }
+  if (!isPathInScope(scope, path)) {
+    return "outside the folders this device's token covers";
+  }
+  return null;
+}
+
+/**
+ * Read the revocation list, reusing a recently read copy.
+ */
+export async function loadRevokedDevices(bucket: R2Bucket, fresh = false): Promise<RevokedDevices> {
+  const cached = revokedCache.get(bucket);
+  if (!fresh && cached && Date.now() - cached.loadedAt < REVOKED_CACHE_MS) {
+    return cached.revoked;
+  }
+
+  const object = await bucket.get(REVOKED_DEVICES_KEY);
+  const revoked = object ? await object.json<RevokedDevices>() : { devices: {} };
+  revokedCache.set(bucket, { revoked, loadedAt: Date.now() });
+  return revoked;
+}
+
+/**
+ * Write the revocation list and use it right away in this worker instance.
+ */
+export async function saveRevokedDevices(bucket: R2Bucket, revoked: RevokedDevices): Promise<void> {
+  await bucket.put(REVOKED_DEVICES_KEY, JSON.stringify(revoked), {
+    httpMetadata: { contentType: "application/json" },
+  });
+  revokedCache.set(bucket, { revoked, loadedAt: Date.now() });
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
   const encoder = new TextEncoder();
   const key = await crypto.subtle.importKey(
     "raw",
-    encoder.encode(c.env.AUTH_SECRET),
+    encoder.encode(secret),
     { name: "HMAC", hash: "SHA-256" },
     false,
     ["sign"],
   );
-  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(deviceId));
-  const expectedHmac = Array.from(new Uint8Array(signature))
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
+}
 
-  // Constant-time comparison
-  if (expectedHmac.length !== providedHmac.length) {
-    return c.json({ error: "Invalid token" }, 401);
-  }
+/** Constant-time comparison */
+function timingSafeEqual(expected: string, provided: string): boolean {
+  if (expected.length !== provided.length) return false;
 
-  const expectedBytes = encoder.encode(expectedHmac);
-  const providedBytes = encoder.encode(providedHmac);
+  const encoder = new TextEncoder();
+  const expectedBytes = encoder.encode(expected);
+  const providedBytes = encoder.encode(provided);
   let mismatch = 0;
   for (let i = 0; i < expectedBytes.length; i++) {
     mismatch |= expectedBytes[i]! ^ providedBytes[i]!;
   }
-
-  if (mismatch !== 0) {
-    return c.json({ error: "Invalid token" }, 401);
-  }
-
-  // Attach device ID to context for downstream use
-  c.set("deviceId", deviceId);
-  await next();
-});
+  return mismatch === 0;
+}
@@ -0,0 +1,69 @@
+import { AwsClient } from "aws4fetch";
+import { PRESIGNED_URL_EXPIRY } from "@obsidian-r2-sync/shared";
+import type { Env } from "./index.js";
+
+/**
+ * Whether the worker has the R2 S3 credentials needed to presign URLs.
+ * Without them, clients transfer through the worker's object routes.
+ */
+export function isPresignConfigured(env: Env["Bindings"]): boolean {
+  return Boolean(env.CF_ACCOUNT_ID && env.CF_ACCESS_KEY_ID && env.CF_SECRET_ACCESS_KEY && env.BUCKET_NAME);
+}
+
+/**
+ * Generate a presigned URL using aws4fetch.
+ * Uses the S3-compatible API endpoint for R2.
+ *
+ * Any `headers` are signed into the URL and must be sent with the request.
+ * `query` parameters select a sub-resource, e.g. a part of a multipart upload.
+ *
+ * @throws PresignNotConfiguredError if the worker has no R2 credentials
+ */
+export async function generatePresignedUrl(
+  env: Env["Bindings"],
+  key: string,
+  method: "GET" | "PUT",
+  headers: Record<string, string> = {},
+  query: Record<string, string> = {},
+): Promise<string> {
+  if (!isPresignConfigured(env)) {
+    throw new PresignNotConfiguredError();
+  }
+
+  const client = new AwsClient({
+    accessKeyId: env.CF_ACCESS_KEY_ID,
+    secretAccessKey: env.CF_SECRET_ACCESS_KEY,
+    service: "s3",
+    region: "auto",
+  });
+
+  const params = new URLSearchParams({ ...query, "X-Amz-Expires": String(PRESIGNED_URL_EXPIRY) });
+  const endpoint = `https://${env.CF_ACCOUNT_ID}.r2.cloudflarestorage.com/${env.BUCKET_NAME}/${key}?${params}`;
+
+  const signed = await client.sign(
+    new Request(endpoint, { method, headers }),
+    { aws: { signQuery: true, allHeaders: true } },
+  );
+
+  return signed.url;
+}
+
+/**
+ * Headers that bind a presigned PUT to the SHA-256 of its body, so R2
+ * rejects a body that was corrupted on the way.
+ *
+ * @param checksum - Base64-encoded SHA-256 of the body, as sent by the client
+ * @returns null if the checksum is malformed
+ */
+export function checksumHeaders(checksum: string | undefined): Record<string, string> | null {
+  if (checksum === undefined) return {};
+  if (typeof checksum !== "string" || !/^[A-Za-z0-9+/]{43}=$/.test(checksum)) return null;
+  return { "x-amz-checksum-sha256": checksum };
+}
+
+export class PresignNotConfiguredError extends Error {
+  constructor() {
+    super("presigned URLs are not configured — transfer through the object routes instead");
+    this.name = "PresignNotConfiguredError";
+  }
+}
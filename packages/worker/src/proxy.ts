@@ -0,0 +1,49 @@
+/**
+ * Transfers through the worker's R2 binding, used when presigned URLs
+ * aren't configured (e.g. no R2 API token, or local `wrangler dev`).
+ *
+ * Uploads take the same headers a presigned upload is signed with, and
+ * downloads return the object's custom metadata as `x-amz-meta-*`
+ * headers, like R2 does — so clients handle both modes the same way.
+ */
+
+/**
+ * Store a request body, checking it against its SHA-256 if a checksum is given.
+ *
+ * @param checksum - Base64-encoded SHA-256 of the body
+ * @returns An error message if R2 rejected the body
+ */
+export async function putObject(
+  bucket: R2Bucket,
+  key: string,
+  body: ReadableStream | null,
+  customMetadata: Record<string, string>,
+  checksum?: string,
+): Promise<string | null> {
+  const options: R2PutOptions = { customMetadata };
+  if (checksum) {
+    options.sha256 = Uint8Array.from(atob(checksum), (char) => char.charCodeAt(0)).buffer;
+  }
+
+  try {
+    await bucket.put(key, body, options);
+    return null;
+  } catch (error) {
+    if (!checksum) throw error;
+    return `upload rejected: ${error instanceof Error ? error.message : "content doesn't match its checksum"}`;
+  }
+}
+
+/**
+ * Stream an object back to the client.
+ */
+export function objectResponse(object: R2ObjectBody): Response {
+  const headers = new Headers({
+    "content-type": "application/octet-stream",
+    etag: object.httpEtag,
+  });
+  for (const [name, value] of Object.entries(object.customMetadata ?? {})) {
+    headers.set(`x-amz-meta-${name}`, value);
+  }
+  return new Response(object.body, { headers });
+}
@@ -0,0 +1,48 @@
+import { Hono } from "hono";
+import type { Env } from "../index.js";
+import { loadRevokedDevices, saveRevokedDevices } from "../middleware/auth.js";
+
+export const adminRoutes = new Hono<Env>();
+
+/**
+ * Revoke a device's token. Its requests are rejected from then on, while
+ * every other device keeps working — unlike rotating the auth secret.
+ */
+adminRoutes.post("/revoke", async (c) => {
+  const { deviceId } = await c.req.json<{ deviceId: string }>();
+
+  if (!isValidDeviceId(deviceId)) {
+    return c.json({ error: "a valid deviceId is required" }, 400);
+  }
+
+  const revoked = await loadRevokedDevices(c.env.BUCKET, true);
+  revoked.devices[deviceId] ??= { revokedAt: new Date().toISOString() };
+  await saveRevokedDevices(c.env.BUCKET, revoked);
+
+  return c.json({ ok: true, revoked: Object.keys(revoked.devices) });
+});
+
+/**
+ * Let a revoked device sync again, e.g. a lost phone that was found or a
+ * device set up again under the same ID.
+ */
+adminRoutes.post("/unrevoke", async (c) => {
+  const { deviceId } = await c.req.json<{ deviceId: string }>();
+
+  if (!isValidDeviceId(deviceId)) {
+    return c.json({ error: "a valid deviceId is required" }, 400);
+  }
+
+  const revoked = await loadRevokedDevices(c.env.BUCKET, true);
+  if (!revoked.devices[deviceId]) {
+    return c.json({ error: `Device "${deviceId}" is not revoked` }, 404);
+  }
+  delete revoked.devices[deviceId];
+  await saveRevokedDevices(c.env.BUCKET, revoked);
+
+  return c.json({ ok: true, revoked: Object.keys(revoked.devices) });
+});
+
+function isValidDeviceId(deviceId: unknown): deviceId is string {
+  return typeof deviceId === "string" && deviceId.length > 0 && !/[:#]/.test(deviceId);
+}
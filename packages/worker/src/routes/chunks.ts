@@ -0,0 +1,189 @@
+import { Hono } from "hono";
+import { createMiddleware } from "hono/factory";
+import {
+  CHUNKS_PREFIX,
+  MAX_CHUNK_HASHES_PER_REQUEST,
+  PRESIGNED_URL_EXPIRY,
+} from "@obsidian-r2-sync/shared";
+import type { Env } from "../index.js";
+import { checksumHeaders, generatePresignedUrl } from "../presign.js";
+import { objectResponse, putObject } from "../proxy.js";
+
+export const chunkRoutes = new Hono<Env>();
+
+/**
+ * Chunks are shared by content across files, so the folders a token is
+ * limited to don't apply to them; read-only tokens can't store chunks.
+ * What keeps a folder-limited token from changing the chunks of files
+ * outside its folders is checkUpload: stored chunks are never replaced.
+ */
+const denyReadOnly = createMiddleware<Env>(async (c, next) => {
+  if (c.get("scope").readOnly) {
+    return c.json({ error: "this device's token is read-only" }, 403);
+  }
+  await next();
+});
+
+chunkRoutes.post("/upload-url", denyReadOnly);
+chunkRoutes.put("/object/:hash", denyReadOnly);
+
+/**
+ * Validate a chunk hash (hex SHA-256, or an encrypted token) so it can't
+ * address anything outside the chunks prefix.
+ */
+function validateHash(hash: string): string | null {
+  if (!hash || typeof hash !== "string") {
+    return "hash is required";
+  }
+  if (!/^[A-Za-z0-9_-]+$/.test(hash)) {
+    return "invalid hash";
+  }
+  return null;
+}
+
+/**
+ * Check a chunk upload before it is presigned or stored.
+ *
+ * A stored chunk is never replaced. Every upload must carry the SHA-256
+ * of its body, and in a plaintext vault, where a chunk is named by the
+ * hex SHA-256 of its content, that must be the name — so the content
+ * stored under a name is the content it names. (An encrypted vault's
+ * chunk names are opaque tokens the worker can't check a body against.)
+ */
+async function checkUpload(
+  bucket: R2Bucket,
+  hash: string,
+  checksum: string | undefined,
+): Promise<{ error: string; status: 400 | 409 } | null> {
+  const hashError = validateHash(hash);
+  if (hashError) {
+    return { error: hashError, status: 400 };
+  }
+  if (checksum === undefined || !checksumHeaders(checksum)) {
+    return { error: "invalid checksum: expected a base64-encoded SHA-256", status: 400 };
+  }
+  if (/^[0-9a-f]{64}$/.test(hash) && checksum !== hexToBase64(hash)) {
+    return { error: "checksum doesn't match the chunk's name", status: 400 };
+  }
+  if (await bucket.head(`${CHUNKS_PREFIX}${hash}`)) {
+    return { error: "chunk already stored", status: 409 };
+  }
+  return null;
+}
+
+function hexToBase64(hex: string): string {
+  let binary = "";
+  for (let i = 0; i < hex.length; i += 2) {
+    binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Report which of the given chunks are not stored yet.
+ */
+chunkRoutes.post("/missing", async (c) => {
+  const { hashes } = await c.req.json<{ hashes: string[] }>();
+
+  if (!hashes?.length) {
+    return c.json({ error: "hashes array is required" }, 400);
+  }
+  if (hashes.length > MAX_CHUNK_HASHES_PER_REQUEST) {
+    return c.json({ error: `at most ${MAX_CHUNK_HASHES_PER_REQUEST} hashes per request` }, 400);
+  }
+
+  for (const hash of hashes) {
+    const hashError = validateHash(hash);
+    if (hashError) {
+      return c.json({ error: `${hashError} (${hash})` }, 400);
+    }
+  }
+
+  const missing: string[] = [];
+  for (const hash of new Set(hashes)) {
+    if (!(await c.env.BUCKET.head(`${CHUNKS_PREFIX}${hash}`))) {
+      missing.push(hash);
+    }
+  }
+
+  return c.json({ missing });
+});
+
+/**
+ * Generate a presigned URL for uploading a chunk, bound to the body's
+ * SHA-256 `checksum`.
+ */
+chunkRoutes.post("/upload-url", async (c) => {
+  const { hash, checksum } = await c.req.json<{ hash: string; checksum?: string }>();
+
+  const rejected = await checkUpload(c.env.BUCKET, hash, checksum);
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  const headers = checksumHeaders(checksum)!;
+
+  const url = await generatePresignedUrl(c.env, `${CHUNKS_PREFIX}${hash}`, "PUT", headers);
+
+  return c.json({
+    url,
+    expiresAt: new Date(Date.now() + PRESIGNED_URL_EXPIRY * 1000).toISOString(),
+    headers,
+  });
+});
+
+/**
+ * Generate a presigned URL for downloading a chunk.
+ */
+chunkRoutes.post("/download-url", async (c) => {
+  const { hash } = await c.req.json<{ hash: string }>();
+
+  const hashError = validateHash(hash);
+  if (hashError) {
+    return c.json({ error: hashError }, 400);
+  }
+
+  const url = await generatePresignedUrl(c.env, `${CHUNKS_PREFIX}${hash}`, "GET");
+
+  return c.json({
+    url,
+    expiresAt: new Date(Date.now() + PRESIGNED_URL_EXPIRY * 1000).toISOString(),
+  });
+});
+
+/**
+ * Upload a chunk through the worker, for when presigned URLs aren't configured.
+ */
+chunkRoutes.put("/object/:hash", async (c) => {
+  const hash = c.req.param("hash");
+  const checksum = c.req.header("x-amz-checksum-sha256");
+
+  const rejected = await checkUpload(c.env.BUCKET, hash, checksum);
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+
+  const error = await putObject(c.env.BUCKET, `${CHUNKS_PREFIX}${hash}`, c.req.raw.body, {}, checksum);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  return c.json({ ok: true });
+});
+
+/**
+ * Download a chunk through the worker, for when presigned URLs aren't configured.
+ */
+chunkRoutes.get("/object/:hash", async (c) => {
+  const hash = c.req.param("hash");
+
+  const hashError = validateHash(hash);
+  if (hashError) {
+    return c.json({ error: hashError }, 400);
+  }
+
+  const object = await c.env.BUCKET.get(`${CHUNKS_PREFIX}${hash}`);
+  if (!object) {
+    return c.json({ error: "chunk not found" }, 404);
+  }
+  return objectResponse(object);
+});
@@ -1,7 +1,28 @@
 import { Hono } from "hono";
-import { AwsClient } from "aws4fetch";
-import { FILES_PREFIX, PRESIGNED_URL_EXPIRY } from "@obsidian-r2-sync/shared";
+import {
+  FILES_PREFIX,
+  MAX_PRESIGN_BATCH,
+  PRESIGNED_URL_EXPIRY,
+  TRASH_PREFIX,
+  isPathInScope,
+} from "@obsidian-r2-sync/shared";
+import type {
+  MultipartCompleteRequest,
+  MultipartCreateRequest,
+  MultipartPartUrlRequest,
+  MultipartUploadRequest,
+  PresignResult,
+  TokenScope,
+  TrashEntry,
+  UploadUrlRequest,
+} from "@obsidian-r2-sync/shared";
 import type { Env } from "../index.js";
+import { scopeError } from "../middleware/auth.js";
+import { checksumHeaders, generatePresignedUrl } from "../presign.js";
+import { objectResponse, putObject } from "../proxy.js";
+import { isTrashExpired } from "../trash.js";
+import { stagedUploadKey } from "../uploads.js";
+import { archiveVersion, pruneVersions, versionPrefix } from "../versions.js";
 
 export const fileRoutes = new Hono<Env>();
 
@@ -22,23 +43,79 @@ function validatePath(path: string): string | null {
 }
 
 /**
- * Generate a presigned URL for uploading a file to R2.
+ * Validate a path and check that the device's token covers it.
+ *
+ * @returns The reason and status to reject the path with, or null
  */
-fileRoutes.post("/upload-url", async (c) => {
-  const { path } = await c.req.json<{ path: string; hash?: string }>();
-
+function checkPath(
+  scope: TokenScope,
+  path: string,
+  access: "read" | "write",
+): { error: string; status: 400 | 403 } | null {
   const pathError = validatePath(path);
   if (pathError) {
-    return c.json({ error: pathError }, 400);
+    return { error: pathError, status: 400 };
+  }
+  const denied = scopeError(scope, path, access);
+  if (denied) {
+    return { error: denied, status: 403 };
   }
+  return null;
+}
 
-  const r2Key = `${FILES_PREFIX}${path}`;
-  const url = await generatePresignedUrl(c.env, r2Key, "PUT");
+/** Validate the content hash an upload is staged under */
+function hashError(hash: unknown): string | null {
+  if (typeof hash !== "string" || !hash) {
+    return "hash is required";
+  }
+  if (hash.includes("/")) {
+    return "invalid hash";
+  }
+  return null;
+}
 
-  return c.json({
-    url,
-    expiresAt: new Date(Date.now() + PRESIGNED_URL_EXPIRY * 1000).toISOString(),
-  });
+/**
+ * Check the path, hash and upload ID that identify a multipart upload.
+ */
+function checkMultipart(
+  scope: TokenScope,
+  request: MultipartUploadRequest,
+): { error: string; status: 400 | 403 } | null {
+  if (typeof request !== "object" || request === null) {
+    return { error: "path is required", status: 400 };
+  }
+  const rejected = checkPath(scope, request.path, "write");
+  if (rejected) return rejected;
+  const invalidHash = hashError(request.hash);
+  if (invalidHash) return { error: invalidHash, status: 400 };
+  if (typeof request.uploadId !== "string" || !request.uploadId) {
+    return { error: "uploadId is required", status: 400 };
+  }
+  return null;
+}
+
+/** R2 numbers parts from 1 to 10000 */
+function isPartNumber(partNumber: unknown): partNumber is number {
+  return Number.isInteger(partNumber) && (partNumber as number) >= 1 && (partNumber as number) <= 10000;
+}
+
+/** Whether R2 rejected a request because the upload was completed, aborted or has expired */
+function isMissingUpload(error: unknown): boolean {
+  return error instanceof Error && /does not exist|10024/.test(error.message);
+}
+
+/**
+ * Generate a presigned URL for uploading a file to R2.
+ */
+fileRoutes.post("/upload-url", async (c) => {
+  const request = await c.req.json<UploadUrlRequest>();
+  const rejected = checkPath(c.get("scope"), request?.path, "write");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+
+  const result = await presignUpload(c.env, c.get("scope"), request);
+  return "error" in result ? c.json(result, 400) : c.json(result);
 });
 
 /**
@@ -46,15 +123,158 @@ fileRoutes.post("/upload-url", async (c) => {
  */
 fileRoutes.post("/download-url", async (c) => {
   const { path } = await c.req.json<{ path: string }>();
+  const rejected = checkPath(c.get("scope"), path, "read");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
 
-  const pathError = validatePath(path);
-  if (pathError) {
-    return c.json({ error: pathError }, 400);
+  const result = await presignDownload(c.env, c.get("scope"), path);
+  return "error" in result ? c.json(result, 400) : c.json(result);
+});
+
+/**
+ * Generate presigned upload URLs for many files in one request.
+ * Each file is validated on its own; rejected files get an error in
+ * place of their URL.
+ */
+fileRoutes.post("/upload-urls", async (c) => {
+  const { files } = await c.req.json<{ files: UploadUrlRequest[] }>();
+
+  const batchError = validateBatch(files);
+  if (batchError) {
+    return c.json({ error: batchError }, 400);
   }
 
-  const r2Key = `${FILES_PREFIX}${path}`;
-  const url = await generatePresignedUrl(c.env, r2Key, "GET");
+  const results: PresignResult[] = [];
+  for (const file of files) {
+    results.push(await presignUpload(c.env, c.get("scope"), file));
+  }
+  return c.json({ results });
+});
+
+/**
+ * Generate presigned download URLs for many files in one request.
+ */
+fileRoutes.post("/download-urls", async (c) => {
+  const { paths } = await c.req.json<{ paths: string[] }>();
+
+  const batchError = validateBatch(paths);
+  if (batchError) {
+    return c.json({ error: batchError }, 400);
+  }
+
+  const results: PresignResult[] = [];
+  for (const path of paths) {
+    results.push(await presignDownload(c.env, c.get("scope"), path));
+  }
+  return c.json({ results });
+});
+
+/**
+ * Upload a file through the worker, for when presigned URLs aren't
+ * configured. Takes the headers a presigned upload is signed with, and
+ * is staged the same way until a manifest update commits its hash.
+ */
+fileRoutes.put("/object/:path{.+}", async (c) => {
+  const path = c.req.param("path");
+  const hash = c.req.header("x-amz-meta-sha256") ?? "";
+  const encoding = c.req.header("x-amz-meta-encoding");
+  const chunked = c.req.header("x-amz-meta-chunked");
+  const checksum = c.req.header("x-amz-checksum-sha256");
 
+  const rejected = checkPath(c.get("scope"), path, "write");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  const invalidHash = hashError(hash);
+  if (invalidHash) {
+    return c.json({ error: invalidHash }, 400);
+  }
+  if (encoding !== undefined && encoding !== "gzip") {
+    return c.json({ error: "unsupported encoding" }, 400);
+  }
+  if (chunked !== undefined && chunked !== "true") {
+    return c.json({ error: "invalid chunked flag" }, 400);
+  }
+  if (!checksumHeaders(checksum)) {
+    return c.json({ error: "invalid checksum: expected a base64-encoded SHA-256" }, 400);
+  }
+
+  const customMetadata: Record<string, string> = { sha256: hash };
+  if (encoding) customMetadata.encoding = encoding;
+  if (chunked) customMetadata.chunked = chunked;
+  const error = await putObject(c.env.BUCKET, stagedUploadKey(path, hash), c.req.raw.body, customMetadata, checksum);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  return c.json({ ok: true });
+});
+
+/**
+ * Download a file through the worker, for when presigned URLs aren't configured.
+ */
+fileRoutes.get("/object/:path{.+}", async (c) => {
+  const path = c.req.param("path");
+
+  const rejected = checkPath(c.get("scope"), path, "read");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+
+  const object = await c.env.BUCKET.get(`${FILES_PREFIX}${path}`);
+  if (!object) {
+    return c.json({ error: "file not found" }, 404);
+  }
+  return objectResponse(object);
+});
+
+/**
+ * Start a multipart upload of a large file. Like a single presigned
+ * upload it is staged, and replaces the file when a manifest update
+ * commits its hash.
+ */
+fileRoutes.post("/multipart/create", async (c) => {
+  const { path, hash, partSize } = await c.req.json<MultipartCreateRequest>();
+
+  const rejected = checkPath(c.get("scope"), path, "write");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  const invalidHash = hashError(hash);
+  if (invalidHash) {
+    return c.json({ error: invalidHash }, 400);
+  }
+  if (partSize !== undefined && !(Number.isInteger(partSize) && partSize > 0)) {
+    return c.json({ error: "invalid part size" }, 400);
+  }
+
+  // Parts encrypted on their own are decrypted by their plaintext size, also without a manifest entry
+  const customMetadata: Record<string, string> = { sha256: hash };
+  if (partSize !== undefined) customMetadata["part-size"] = String(partSize);
+  const upload = await c.env.BUCKET.createMultipartUpload(stagedUploadKey(path, hash), { customMetadata });
+
+  return c.json({ uploadId: upload.uploadId });
+});
+
+/**
+ * Presign the upload of one part.
+ */
+fileRoutes.post("/multipart/part-url", async (c) => {
+  const request = await c.req.json<MultipartPartUrlRequest>();
+
+  const rejected = checkMultipart(c.get("scope"), request);
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  if (!isPartNumber(request.partNumber)) {
+    return c.json({ error: "invalid part number" }, 400);
+  }
+
+  const url = await generatePresignedUrl(c.env, stagedUploadKey(request.path, request.hash), "PUT", {}, {
+    partNumber: String(request.partNumber),
+    uploadId: request.uploadId,
+  });
   return c.json({
     url,
     expiresAt: new Date(Date.now() + PRESIGNED_URL_EXPIRY * 1000).toISOString(),
@@ -62,7 +282,92 @@ fileRoutes.post("/download-url", async (c) => {
 });
 
 /**
- * Delete files from R2.
+ * Upload one part through the worker, for when presigned URLs aren't
+ * configured. Returns the part's ETag in the `ETag` header, as R2 does.
+ */
+fileRoutes.put("/multipart/part", async (c) => {
+  const request = {
+    path: c.req.query("path") ?? "",
+    hash: c.req.query("hash") ?? "",
+    uploadId: c.req.query("uploadId") ?? "",
+  };
+  const partNumber = Number(c.req.query("partNumber"));
+
+  const rejected = checkMultipart(c.get("scope"), request);
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  if (!isPartNumber(partNumber)) {
+    return c.json({ error: "invalid part number" }, 400);
+  }
+
+  const upload = c.env.BUCKET.resumeMultipartUpload(stagedUploadKey(request.path, request.hash), request.uploadId);
+  try {
+    const part = await upload.uploadPart(partNumber, await c.req.arrayBuffer());
+    return c.json({ ok: true }, 200, { ETag: part.etag });
+  } catch (error) {
+    if (isMissingUpload(error)) {
+      return c.json({ error: "multipart upload not found" }, 404);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Assemble the uploaded parts into the staged object.
+ */
+fileRoutes.post("/multipart/complete", async (c) => {
+  const request = await c.req.json<MultipartCompleteRequest>();
+
+  const rejected = checkMultipart(c.get("scope"), request);
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  const { parts } = request;
+  if (
+    !Array.isArray(parts) ||
+    parts.length === 0 ||
+    !parts.every((part) => isPartNumber(part?.partNumber) && typeof part.etag === "string")
+  ) {
+    return c.json({ error: "a non-empty parts array is required" }, 400);
+  }
+
+  const upload = c.env.BUCKET.resumeMultipartUpload(stagedUploadKey(request.path, request.hash), request.uploadId);
+  try {
+    await upload.complete(parts.map(({ partNumber, etag }) => ({ partNumber, etag })));
+  } catch (error) {
+    if (isMissingUpload(error)) {
+      return c.json({ error: "multipart upload not found" }, 404);
+    }
+    throw error;
+  }
+  return c.json({ ok: true });
+});
+
+/**
+ * Abandon a multipart upload and free its parts.
+ */
+fileRoutes.post("/multipart/abort", async (c) => {
+  const request = await c.req.json<MultipartUploadRequest>();
+
+  const rejected = checkMultipart(c.get("scope"), request);
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+
+  const upload = c.env.BUCKET.resumeMultipartUpload(stagedUploadKey(request.path, request.hash), request.uploadId);
+  try {
+    await upload.abort();
+  } catch (error) {
+    // Already completed, aborted or expired
+    if (!isMissingUpload(error)) throw error;
+  }
+  return c.json({ ok: true });
+});
+
+/**
+ * Delete files by moving them into the trash prefix, where they are
+ * kept for TRASH_RETENTION_DAYS before being purged.
  */
 fileRoutes.post("/delete", async (c) => {
   const { paths } = await c.req.json<{ paths: string[] }>();
@@ -73,42 +378,286 @@ fileRoutes.post("/delete", async (c) => {
 
   // Validate all paths
   for (const path of paths) {
-    const pathError = validatePath(path);
-    if (pathError) {
-      return c.json({ error: `${pathError} (${path})` }, 400);
+    const rejected = checkPath(c.get("scope"), path, "write");
+    if (rejected) {
+      return c.json({ error: `${rejected.error} (${path})` }, rejected.status);
     }
   }
 
-  const keys = paths.map((p) => `${FILES_PREFIX}${p}`);
+  const deletedAt = new Date().toISOString();
+  const deletedBy = c.get("deviceId");
+  for (const path of paths) {
+    const object = await c.env.BUCKET.get(`${FILES_PREFIX}${path}`);
+    if (!object) continue;
+
+    // A later deletion of the same path replaces the earlier trashed copy
+    await c.env.BUCKET.put(`${TRASH_PREFIX}${path}`, object.body, {
+      httpMetadata: object.httpMetadata,
+      customMetadata: { ...object.customMetadata, deletedAt, deletedBy },
+    });
+  }
 
   // R2 supports deleting multiple objects at once
-  await c.env.BUCKET.delete(keys);
+  await c.env.BUCKET.delete(paths.map((p) => `${FILES_PREFIX}${p}`));
 
   return c.json({ ok: true, deleted: paths.length });
 });
 
 /**
- * Generate a presigned URL using aws4fetch.
- * Uses the S3-compatible API endpoint for R2.
+ * List trashed files (those the device's token covers). Entries past the
+ * retention period are left out; the scheduled maintenance deletes them.
  */
-async function generatePresignedUrl(
-  env: Env["Bindings"],
-  key: string,
-  method: "GET" | "PUT",
-): Promise<string> {
-  const client = new AwsClient({
-    accessKeyId: env.CF_ACCESS_KEY_ID,
-    secretAccessKey: env.CF_SECRET_ACCESS_KEY,
-    service: "s3",
-    region: "auto",
+fileRoutes.get("/trash", async (c) => {
+  const files: TrashEntry[] = [];
+
+  let cursor: string | undefined;
+  do {
+    const listed = await c.env.BUCKET.list({
+      prefix: TRASH_PREFIX,
+      cursor,
+      include: ["customMetadata"],
+    });
+
+    for (const object of listed.objects) {
+      const deletedAt = object.customMetadata?.deletedAt ?? "";
+      if (isTrashExpired(deletedAt)) continue;
+      const path = object.key.slice(TRASH_PREFIX.length);
+      if (!isPathInScope(c.get("scope"), path)) continue;
+      files.push({
+        path,
+        size: object.size,
+        deletedAt,
+        deletedBy: object.customMetadata?.deletedBy ?? "",
+      });
+    }
+
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return c.json({ files });
+});
+
+/**
+ * Move trashed files back to their original paths. A file at the path
+ * is kept as a previous version.
+ */
+fileRoutes.post("/trash/restore", async (c) => {
+  const { paths } = await c.req.json<{ paths: string[] }>();
+
+  if (!paths?.length) {
+    return c.json({ error: "paths array is required" }, 400);
+  }
+
+  // Validate all paths
+  for (const path of paths) {
+    const rejected = checkPath(c.get("scope"), path, "write");
+    if (rejected) {
+      return c.json({ error: `${rejected.error} (${path})` }, rejected.status);
+    }
+  }
+
+  // Paths with nothing in the trash (never deleted, or already purged) are reported
+  const missing: string[] = [];
+  for (const path of paths) {
+    const object = await c.env.BUCKET.get(`${TRASH_PREFIX}${path}`);
+    if (!object) {
+      missing.push(path);
+      continue;
+    }
+
+    // The file may have been recreated since — keep that content as a version
+    await archiveVersion(c.env.BUCKET, path, object.customMetadata?.sha256);
+
+    const customMetadata = { ...object.customMetadata };
+    delete customMetadata.deletedAt;
+    delete customMetadata.deletedBy;
+    await c.env.BUCKET.put(`${FILES_PREFIX}${path}`, object.body, {
+      httpMetadata: object.httpMetadata,
+      customMetadata,
+    });
+    await c.env.BUCKET.delete(`${TRASH_PREFIX}${path}`);
+  }
+
+  return c.json({ ok: true, restored: paths.length - missing.length, missing });
+});
+
+/**
+ * List previous versions of a file, newest first.
+ */
+fileRoutes.get("/versions", async (c) => {
+  const path = c.req.query("path") ?? "";
+
+  const rejected = checkPath(c.get("scope"), path, "read");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+
+  const versions = await pruneVersions(c.env.BUCKET, path);
+  return c.json({ versions });
+});
+
+/**
+ * Generate a presigned URL for downloading a previous version of a file.
+ */
+fileRoutes.post("/versions/download-url", async (c) => {
+  const { path, hash } = await c.req.json<{ path: string; hash: string }>();
+
+  const rejected = checkPath(c.get("scope"), path, "read");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  if (!hash || hash.includes("/")) {
+    return c.json({ error: "invalid hash" }, 400);
+  }
+
+  const r2Key = `${versionPrefix(path)}${hash}`;
+  if (!(await c.env.BUCKET.head(r2Key))) {
+    return c.json({ error: "version not found" }, 404);
+  }
+
+  const url = await generatePresignedUrl(c.env, r2Key, "GET");
+
+  return c.json({
+    url,
+    expiresAt: new Date(Date.now() + PRESIGNED_URL_EXPIRY * 1000).toISOString(),
   });
+});
+
+/**
+ * Download a previous version of a file through the worker, for when
+ * presigned URLs aren't configured.
+ */
+fileRoutes.get("/versions/object", async (c) => {
+  const path = c.req.query("path") ?? "";
+  const hash = c.req.query("hash") ?? "";
+
+  const rejected = checkPath(c.get("scope"), path, "read");
+  if (rejected) {
+    return c.json({ error: rejected.error }, rejected.status);
+  }
+  if (!hash || hash.includes("/")) {
+    return c.json({ error: "invalid hash" }, 400);
+  }
+
+  const object = await c.env.BUCKET.get(`${versionPrefix(path)}${hash}`);
+  if (!object) {
+    return c.json({ error: "version not found" }, 404);
+  }
+  return objectResponse(object);
+});
+
+/**
+ * Move files within R2 (server-side copy + delete), so renamed files
+ * don't have to be transferred again. Content a rename replaces is kept
+ * as a version of the destination, as with any other write.
+ */
+fileRoutes.post("/rename", async (c) => {
+  const { renames } = await c.req.json<{ renames: Array<{ from: string; to: string }> }>();
+
+  if (!renames?.length) {
+    return c.json({ error: "renames array is required" }, 400);
+  }
+
+  // Validate all paths
+  for (const { from, to } of renames) {
+    for (const path of [from, to]) {
+      const rejected = checkPath(c.get("scope"), path, "write");
+      if (rejected) {
+        return c.json({ error: `${rejected.error} (${path})` }, rejected.status);
+      }
+    }
+  }
+
+  // Sources that no longer exist are reported so the client can upload instead
+  const missing: string[] = [];
+  for (const { from, to } of renames) {
+    const object = await c.env.BUCKET.get(`${FILES_PREFIX}${from}`);
+    if (!object) {
+      missing.push(from);
+      continue;
+    }
+
+    await archiveVersion(c.env.BUCKET, to, object.customMetadata?.sha256);
+    await c.env.BUCKET.put(`${FILES_PREFIX}${to}`, object.body, {
+      httpMetadata: object.httpMetadata,
+      customMetadata: object.customMetadata,
+    });
+    await c.env.BUCKET.delete(`${FILES_PREFIX}${from}`);
+  }
+
+  return c.json({ ok: true, renamed: renames.length - missing.length, missing });
+});
+
+/**
+ * Presign an upload. The object is staged and only replaces the file
+ * (keeping the previous content as a version) when a manifest update
+ * commits its hash. With a `checksum`, R2 only accepts a body with that SHA-256.
+ */
+async function presignUpload(
+  env: Env["Bindings"],
+  scope: TokenScope,
+  request: UploadUrlRequest,
+): Promise<PresignResult> {
+  if (typeof request !== "object" || request === null) {
+    return { error: "path is required" };
+  }
+  const { path, hash, encoding, chunked, checksum } = request;
 
-  const endpoint = `https://${env.CF_ACCOUNT_ID}.r2.cloudflarestorage.com/${env.BUCKET_NAME}/${key}?X-Amz-Expires=${PRESIGNED_URL_EXPIRY}`;
+  const rejected = checkPath(scope, path, "write");
+  if (rejected) {
+    return { error: rejected.error };
+  }
+  const invalidHash = hashError(hash);
+  if (invalidHash) {
+    return { error: invalidHash };
+  }
+  if (encoding !== undefined && encoding !== "gzip") {
+    return { error: "unsupported encoding" };
+  }
+  if (chunked !== undefined && typeof chunked !== "boolean") {
+    return { error: "invalid chunked flag" };
+  }
+  const integrity = checksumHeaders(checksum);
+  if (!integrity) {
+    return { error: "invalid checksum: expected a base64-encoded SHA-256" };
+  }
 
-  const signed = await client.sign(
-    new Request(endpoint, { method }),
-    { aws: { signQuery: true, allHeaders: true } },
-  );
+  // The hash is stored with the object so its version can be keyed by it later, and the
+  // encoding and chunk list flag so versions and trashed copies can be decoded without a manifest entry
+  const headers: Record<string, string> = { ...integrity, "x-amz-meta-sha256": hash };
+  if (encoding) headers["x-amz-meta-encoding"] = encoding;
+  if (chunked) headers["x-amz-meta-chunked"] = "true";
+  const url = await generatePresignedUrl(env, stagedUploadKey(path, hash), "PUT", headers);
 
-  return signed.url;
+  return {
+    url,
+    expiresAt: new Date(Date.now() + PRESIGNED_URL_EXPIRY * 1000).toISOString(),
+    headers,
+  };
+}
+
+/** Presign a download */
+async function presignDownload(env: Env["Bindings"], scope: TokenScope, path: string): Promise<PresignResult> {
+  const rejected = checkPath(scope, path, "read");
+  if (rejected) {
+    return { error: rejected.error };
+  }
+
+  const url = await generatePresignedUrl(env, `${FILES_PREFIX}${path}`, "GET");
+
+  return {
+    url,
+    expiresAt: new Date(Date.now() + PRESIGNED_URL_EXPIRY * 1000).toISOString(),
+  };
+}
+
+/** Check the size of a batch presign request */
+function validateBatch(items: unknown): string | null {
+  if (!Array.isArray(items) || items.length === 0) {
+    return "a non-empty array is required";
+  }
+  if (items.length > MAX_PRESIGN_BATCH) {
+    return `at most ${MAX_PRESIGN_BATCH} files per request`;
+  }
+  return null;
 }
@@ -1,10 +1,50 @@
 import { Hono } from "hono";
-import { MANIFEST_KEY } from "@obsidian-r2-sync/shared";
+import {
+  MANIFEST_INDEX_KEY,
+  MANIFEST_KEY,
+  MANIFEST_SHARDS_PREFIX,
+  applyOperations,
+  expireTombstones,
+  isPathInScope,
+  operationPath,
+  restrictToScope,
+  serializeShard,
+  shardIdForPath,
+  splitManifest,
+} from "@obsidian-r2-sync/shared";
+import type {
+  ManifestIndex,
+  ManifestOperation,
+  ManifestPatchRequest,
+  ManifestShard,
+  SyncManifest,
+} from "@obsidian-r2-sync/shared";
 import type { Env } from "../index.js";
+import { promoteStagedUploads, promoteUpload } from "../uploads.js";
+
+/** Times a patch is re-applied when another write replaces the index under it */
+const PATCH_ATTEMPTS = 5;
+
+/** Older plugins can't read entries stored in the sharded layout's formats */
+const MIGRATED_ERROR = "Manifest was migrated to the sharded format — update the plugin on this device";
+
+/** Paths of an encrypted vault can't be checked against a token's folders */
+const ENCRYPTED_SCOPE_ERROR = "Tokens limited to folders can't be used with an encrypted vault";
 
 export const manifestRoutes = new Hono<Env>();
 
+/**
+ * Legacy single-file manifest. Once the manifest has been migrated to the
+ * sharded layout it is gone: its entries may be compressed or chunked,
+ * which older plugins would write into the vault as is.
+ * Only the files the device's token covers are included.
+ */
 manifestRoutes.get("/", async (c) => {
+  const scope = c.get("scope");
+  if (await c.env.BUCKET.head(MANIFEST_INDEX_KEY)) {
+    return c.json({ error: MIGRATED_ERROR }, 410);
+  }
+
   const object = await c.env.BUCKET.get(MANIFEST_KEY);
 
   if (!object) {
@@ -18,15 +58,27 @@ manifestRoutes.get("/", async (c) => {
     );
   }
 
-  const manifest = await object.json();
+  const manifest = await object.json<SyncManifest>();
+  if (manifest.encryption && scope.prefixes.length > 0) {
+    return c.json({ error: ENCRYPTED_SCOPE_ERROR }, 403);
+  }
   return c.json(
-    { manifest, etag: object.httpEtag },
+    { manifest: restrictToScope(manifest, scope), etag: object.httpEtag },
     200,
     { ETag: object.httpEtag },
   );
 });
 
 manifestRoutes.put("/", async (c) => {
+  const scope = c.get("scope");
+  if (scope.readOnly || scope.prefixes.length > 0) {
+    return c.json({ error: "Replacing the whole manifest needs a full-access token" }, 403);
+  }
+
+  if (await c.env.BUCKET.head(MANIFEST_INDEX_KEY)) {
+    return c.json({ error: MIGRATED_ERROR }, 410);
+  }
+
   const ifMatch = c.req.header("If-Match");
 
   // For the first manifest write, If-Match is not required
@@ -40,6 +92,8 @@ manifestRoutes.put("/", async (c) => {
   const body = await c.req.text();
 
   try {
+    const manifest = JSON.parse(body) as SyncManifest | null;
+
     const putOptions: R2PutOptions = {};
     if (ifMatch) {
       putOptions.onlyIf = { etagMatches: ifMatch.replace(/"/g, "") };
@@ -54,6 +108,7 @@ manifestRoutes.put("/", async (c) => {
       // R2 returns null when onlyIf condition fails
       return c.json({ error: "Manifest has been modified by another device" }, 412);
     }
+    await promoteStagedUploads(c.env.BUCKET, manifest?.files ?? {});
 
     return c.json(
       { ok: true, etag: result.httpEtag },
@@ -64,3 +119,265 @@ manifestRoutes.put("/", async (c) => {
     return c.json({ error: "Failed to update manifest" }, 500);
   }
 });
+
+/**
+ * Index of the sharded manifest. A legacy single-file manifest is
+ * migrated on first read.
+ */
+manifestRoutes.get("/index", async (c) => {
+  let object = await c.env.BUCKET.get(MANIFEST_INDEX_KEY);
+  if (!object) {
+    await migrateLegacyManifest(c.env.BUCKET);
+    object = await c.env.BUCKET.get(MANIFEST_INDEX_KEY);
+  }
+
+  if (!object) {
+    const index: ManifestIndex = { version: 2, shards: {}, lastUpdated: new Date().toISOString(), lastUpdatedBy: "" };
+    return c.json({ index, etag: null }, 200);
+  }
+
+  const index = await object.json<ManifestIndex>();
+  if (index.encryption && c.get("scope").prefixes.length > 0) {
+    return c.json({ error: ENCRYPTED_SCOPE_ERROR }, 403);
+  }
+  return c.json(
+    { index, etag: object.httpEtag },
+    200,
+    { ETag: object.httpEtag },
+  );
+});
+
+/**
+ * Fetch manifest shards by hash, with only the files the device's token
+ * covers. Shards that no longer exist (replaced by a concurrent write)
+ * are reported so the client can start over.
+ */
+manifestRoutes.post("/shards", async (c) => {
+  const { hashes } = await c.req.json<{ hashes: string[] }>();
+
+  if (!hashes?.length) {
+    return c.json({ error: "hashes array is required" }, 400);
+  }
+  if (!hashes.every(isShardHash)) {
+    return c.json({ error: "invalid shard hash" }, 400);
+  }
+
+  const { shards, missing } = await loadShards(c.env.BUCKET, hashes);
+  for (const [hash, shard] of Object.entries(shards)) {
+    shards[hash] = restrictToScope(shard, c.get("scope"));
+  }
+  return c.json({ shards, missing });
+});
+
+/**
+ * Apply per-path operations to the manifest. Unlike a full write, changes
+ * by other devices to other paths don't fail the request — when the index
+ * is replaced concurrently the patch is re-applied on top of it. Only
+ * operations whose path no longer has the expected hash are rejected.
+ * Tokens with a scope can only change the paths it covers.
+ */
+manifestRoutes.patch("/", async (c) => {
+  const { operations, encryption } = await c.req.json<ManifestPatchRequest>();
+  const scope = c.get("scope");
+
+  if (!operations?.length) {
+    return c.json({ error: "operations array is required" }, 400);
+  }
+  if (!operations.every(isValidOperation)) {
+    return c.json({ error: "invalid manifest operation" }, 400);
+  }
+  if (scope.readOnly) {
+    return c.json({ error: "This device's token is read-only" }, 403);
+  }
+  const outOfScope = operations.map(operationPath).filter((path) => !isPathInScope(scope, path));
+  if (outOfScope.length > 0) {
+    return c.json({ error: "Paths outside the folders this device's token covers", paths: outOfScope }, 403);
+  }
+  if (encryption && scope.prefixes.length > 0) {
+    return c.json({ error: ENCRYPTED_SCOPE_ERROR }, 403);
+  }
+
+  attempts: for (let attempt = 0; attempt < PATCH_ATTEMPTS; attempt++) {
+    let existing = await c.env.BUCKET.get(MANIFEST_INDEX_KEY);
+    if (!existing) {
+      await migrateLegacyManifest(c.env.BUCKET);
+      existing = await c.env.BUCKET.get(MANIFEST_INDEX_KEY);
+    }
+    const previous = existing ? await existing.json<ManifestIndex>() : null;
+
+    if (encryption && previous?.encryption && previous.encryption.salt !== encryption.salt) {
+      return c.json({ error: "Vault encryption was set up by another device", conflicts: [] }, 409);
+    }
+    if (previous?.encryption && scope.prefixes.length > 0) {
+      return c.json({ error: ENCRYPTED_SCOPE_ERROR }, 403);
+    }
+
+    const index: ManifestIndex = {
+      version: 2,
+      shards: { ...previous?.shards },
+      lastUpdated: new Date().toISOString(),
+      lastUpdatedBy: c.get("deviceId"),
+    };
+    const indexEncryption = previous?.encryption ?? encryption;
+    if (indexEncryption) {
+      index.encryption = indexEncryption;
+    }
+
+    const byShard = new Map<string, ManifestOperation[]>();
+    for (const operation of operations) {
+      const id = shardIdForPath(operationPath(operation));
+      byShard.set(id, [...(byShard.get(id) ?? []), operation]);
+    }
+
+    // Nothing is written unless every operation applies
+    const conflicts: string[] = [];
+    const updated = new Map<string, ManifestShard>();
+    for (const [id, shardOperations] of byShard) {
+      let shard: ManifestShard = { files: {} };
+      const hash = index.shards[id];
+      if (hash) {
+        const object = await c.env.BUCKET.get(`${MANIFEST_SHARDS_PREFIX}${hash}`);
+        // Replaced by a concurrent write since the index was read
+        if (!object) continue attempts;
+        shard = await object.json<ManifestShard>();
+      }
+      conflicts.push(...applyOperations(shard, shardOperations, c.get("deviceId")));
+      expireTombstones(shard);
+      updated.set(id, shard);
+    }
+
+    if (conflicts.length > 0) {
+      return c.json({ error: "Files were changed by another device", conflicts }, 409);
+    }
+
+    for (const [id, shard] of updated) {
+      if (Object.keys(shard.files).length === 0 && Object.keys(shard.tombstones ?? {}).length === 0) {
+        delete index.shards[id];
+      } else {
+        index.shards[id] = await storeShard(c.env.BUCKET, shard);
+      }
+    }
+
+    // Without an index, only create one — another device's first write may be in flight
+    const result = await c.env.BUCKET.put(MANIFEST_INDEX_KEY, JSON.stringify(index), {
+      onlyIf: existing ? { etagMatches: existing.etag } : { etagDoesNotMatch: "*" },
+      httpMetadata: { contentType: "application/json" },
+    });
+    // Another write replaced (or created) the index — apply the operations on top of it.
+    // Shards stored for this attempt that it doesn't reuse are left to collectUnusedShards
+    if (result === null) continue;
+
+    // Uploads land in the vault (archiving what they replace) only once the
+    // manifest points at them. Promoting is idempotent, and a retried patch
+    // whose operations were already applied promotes them again
+    for (const operation of operations) {
+      if (operation.op === "upsert") {
+        await promoteUpload(c.env.BUCKET, operation.entry.path, operation.entry.hash);
+      }
+    }
+
+    if (previous) {
+      await deleteReplacedShards(c.env.BUCKET, previous);
+    }
+
+    return c.json(
+      { ok: true, etag: result.httpEtag },
+      200,
+      { ETag: result.httpEtag },
+    );
+  }
+
+  return c.json({ error: "Manifest is being updated by other devices" }, 412);
+});
+
+function isValidOperation(operation: ManifestOperation): boolean {
+  if (operation?.expectedHash !== null && typeof operation?.expectedHash !== "string") return false;
+  if (operation.op === "upsert") {
+    return typeof operation.entry?.path === "string" && typeof operation.entry.hash === "string";
+  }
+  return operation.op === "delete" && typeof operation.path === "string";
+}
+
+function isShardHash(hash: string): boolean {
+  return typeof hash === "string" && /^[0-9a-f]{64}$/.test(hash);
+}
+
+async function sha256Hex(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function loadShards(
+  bucket: R2Bucket,
+  hashes: string[],
+): Promise<{ shards: Record<string, ManifestShard>; missing: string[] }> {
+  const shards: Record<string, ManifestShard> = {};
+  const missing: string[] = [];
+  for (const hash of new Set(hashes)) {
+    const object = await bucket.get(`${MANIFEST_SHARDS_PREFIX}${hash}`);
+    if (object) {
+      shards[hash] = await object.json<ManifestShard>();
+    } else {
+      missing.push(hash);
+    }
+  }
+  return { shards, missing };
+}
+
+/** Store a shard under the hash of its content and return the hash */
+async function storeShard(bucket: R2Bucket, shard: ManifestShard): Promise<string> {
+  const content = serializeShard(shard);
+  const hash = await sha256Hex(content);
+  await bucket.put(`${MANIFEST_SHARDS_PREFIX}${hash}`, content, {
+    httpMetadata: { contentType: "application/json" },
+  });
+  return hash;
+}
+
+/**
+ * Delete the shards of a replaced index that the current index no longer
+ * references. The current index is re-read so a shard that a newer write
+ * brought back (same content, same hash) is kept.
+ */
+async function deleteReplacedShards(bucket: R2Bucket, previous: ManifestIndex): Promise<void> {
+  const current = await bucket.get(MANIFEST_INDEX_KEY);
+  const live = new Set(current ? Object.values((await current.json<ManifestIndex>()).shards) : []);
+  const stale = [...new Set(Object.values(previous.shards))].filter((hash) => !live.has(hash));
+  if (stale.length > 0) {
+    await bucket.delete(stale.map((hash) => `${MANIFEST_SHARDS_PREFIX}${hash}`));
+  }
+}
+
+/**
+ * Split a legacy single-file manifest into shards and write its index,
+ * unless another request has written an index meanwhile.
+ */
+async function migrateLegacyManifest(bucket: R2Bucket): Promise<void> {
+  const legacy = await bucket.get(MANIFEST_KEY);
+  if (!legacy) return;
+
+  const manifest = await legacy.json<SyncManifest>();
+  const index: ManifestIndex = {
+    version: 2,
+    shards: {},
+    lastUpdated: manifest.lastUpdated,
+    lastUpdatedBy: manifest.lastUpdatedBy,
+  };
+  if (manifest.encryption) {
+    index.encryption = manifest.encryption;
+  }
+
+  for (const [id, shard] of Object.entries(splitManifest(manifest))) {
+    index.shards[id] = await storeShard(bucket, shard);
+  }
+
+  const result = await bucket.put(MANIFEST_INDEX_KEY, JSON.stringify(index), {
+    onlyIf: { etagDoesNotMatch: "*" },
+    httpMetadata: { contentType: "application/json" },
+  });
+  if (result) {
+    await bucket.delete(MANIFEST_KEY);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Maintenance run by the cron trigger in wrangler.toml.
+ */
+
+import { collectUnusedChunks } from "./chunks.js";
+import type { Env } from "./index.js";
+import { collectUnusedShards } from "./shards.js";
+import { purgeExpiredTrash } from "./trash.js";
+import { purgeStaleUploads } from "./uploads.js";
+
+export async function runMaintenance(env: Env["Bindings"]): Promise<void> {
+  await purgeExpiredTrash(env.BUCKET);
+  await purgeStaleUploads(env.BUCKET);
+  await collectUnusedShards(env.BUCKET);
+  // Last, so chunks only the purged objects used are collected in the same run
+  await collectUnusedChunks(env.BUCKET);
+}
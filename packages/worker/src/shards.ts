@@ -0,0 +1,37 @@
+/**
+ * Shards of the manifest, under `.obsidian-r2-sync/shards/<hash>`. A write
+ * stores its shards before the index that references them, so a write that
+ * loses the race for the index leaves shards behind that nothing references.
+ */
+
+import { MANIFEST_INDEX_KEY, MANIFEST_SHARDS_PREFIX } from "@obsidian-r2-sync/shared";
+import type { ManifestIndex } from "@obsidian-r2-sync/shared";
+
+/** Shards this recent may belong to a write whose index isn't stored yet */
+const WRITE_GRACE_PERIOD = 60 * 60 * 1000;
+
+/**
+ * Delete shards that the manifest index doesn't reference.
+ */
+export async function collectUnusedShards(bucket: R2Bucket, now = Date.now()): Promise<void> {
+  const indexObject = await bucket.get(MANIFEST_INDEX_KEY);
+  const used = new Set(indexObject ? Object.values((await indexObject.json<ManifestIndex>()).shards) : []);
+
+  const cutoff = now - WRITE_GRACE_PERIOD;
+  const unused: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix: MANIFEST_SHARDS_PREFIX, cursor });
+    for (const object of listed.objects) {
+      if (!used.has(object.key.slice(MANIFEST_SHARDS_PREFIX.length)) && object.uploaded.getTime() < cutoff) {
+        unused.push(object.key);
+      }
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  // R2 deletes at most 1000 keys per call
+  for (let i = 0; i < unused.length; i += 1000) {
+    await bucket.delete(unused.slice(i, i + 1000));
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Deleted vault files, kept under `trash/<path>` for TRASH_RETENTION_DAYS.
+ */
+
+import { TRASH_PREFIX, TRASH_RETENTION_DAYS } from "@obsidian-r2-sync/shared";
+
+/** Whether a trashed file was deleted before the retention period */
+export function isTrashExpired(deletedAt: string | undefined, now = Date.now()): boolean {
+  const deletedTime = Date.parse(deletedAt ?? "");
+  return !isNaN(deletedTime) && deletedTime < now - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Delete trashed files past the retention period.
+ */
+export async function purgeExpiredTrash(bucket: R2Bucket, now = Date.now()): Promise<void> {
+  const expired: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix: TRASH_PREFIX, cursor, include: ["customMetadata"] });
+    for (const object of listed.objects) {
+      if (isTrashExpired(object.customMetadata?.deletedAt, now)) {
+        expired.push(object.key);
+      }
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  // R2 deletes at most 1000 keys per call
+  for (let i = 0; i < expired.length; i += 1000) {
+    await bucket.delete(expired.slice(i, i + 1000));
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Uploads (presigned or through the worker) are staged under `.obsidian-r2-sync/uploads/<path>/<hash>`
+ * rather than written over the file, so the content they replace can be
+ * archived when the manifest update that commits them is applied — not
+ * when the URL is handed out, which may never be used.
+ */
+
+import { FILES_PREFIX, STAGED_UPLOADS_PREFIX, STAGED_UPLOAD_RETENTION_DAYS } from "@obsidian-r2-sync/shared";
+import type { FileEntry } from "@obsidian-r2-sync/shared";
+import { archiveVersion } from "./versions.js";
+
+export function stagedUploadKey(path: string, hash: string): string {
+  return `${STAGED_UPLOADS_PREFIX}${path}/${hash}`;
+}
+
+/**
+ * Move a staged upload into place, after keeping the content it replaces
+ * as a version. Safe to repeat: an upload already in place is neither
+ * archived as its own version nor moved again once its staged copy is gone.
+ *
+ * @returns Whether an upload of that content was staged
+ */
+export async function promoteUpload(bucket: R2Bucket, path: string, hash: string): Promise<boolean> {
+  const key = stagedUploadKey(path, hash);
+  const staged = await bucket.get(key);
+  if (!staged) return false;
+
+  await archiveVersion(bucket, path, hash);
+  await bucket.put(`${FILES_PREFIX}${path}`, staged.body, {
+    httpMetadata: staged.httpMetadata,
+    customMetadata: staged.customMetadata,
+  });
+  await bucket.delete(key);
+  return true;
+}
+
+/**
+ * Move the staged uploads a whole manifest commits into place. Older
+ * plugins replace the manifest instead of patching it, so the paths
+ * come from the staged uploads rather than from operations.
+ */
+export async function promoteStagedUploads(bucket: R2Bucket, files: Record<string, FileEntry>): Promise<void> {
+  for (const { path, hash } of await listStagedUploads(bucket)) {
+    if (files[path]?.hash === hash) {
+      await promoteUpload(bucket, path, hash);
+    }
+  }
+}
+
+/**
+ * Delete staged uploads no manifest update committed in time — from
+ * syncs that were abandoned or whose changes were dropped after a conflict.
+ */
+export async function purgeStaleUploads(bucket: R2Bucket, now = Date.now()): Promise<void> {
+  const cutoff = now - STAGED_UPLOAD_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const stale = (await listStagedUploads(bucket))
+    .filter((upload) => upload.uploaded.getTime() < cutoff)
+    .map((upload) => upload.key);
+  // R2 deletes at most 1000 keys per call
+  for (let i = 0; i < stale.length; i += 1000) {
+    await bucket.delete(stale.slice(i, i + 1000));
+  }
+}
+
+async function listStagedUploads(
+  bucket: R2Bucket,
+): Promise<Array<{ key: string; path: string; hash: string; uploaded: Date }>> {
+  const uploads: Array<{ key: string; path: string; hash: string; uploaded: Date }> = [];
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix: STAGED_UPLOADS_PREFIX, cursor });
+    for (const object of listed.objects) {
+      const name = object.key.slice(STAGED_UPLOADS_PREFIX.length);
+      const separator = name.lastIndexOf("/");
+      if (separator <= 0) continue;
+      uploads.push({
+        key: object.key,
+        path: name.slice(0, separator),
+        hash: name.slice(separator + 1),
+        uploaded: object.uploaded,
+      });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+  return uploads;
+}
@@ -0,0 +1,68 @@
+/**
+ * Previous versions of vault files, kept under `versions/<path>/<hash>`
+ * whenever the worker replaces a file's content.
+ */
+
+import { FILES_PREFIX, VERSION_RETENTION_COUNT, VERSION_RETENTION_DAYS, VERSIONS_PREFIX } from "@obsidian-r2-sync/shared";
+import type { VersionEntry } from "@obsidian-r2-sync/shared";
+
+export function versionPrefix(path: string): string {
+  return `${VERSIONS_PREFIX}${path}/`;
+}
+
+/**
+ * Copy the current content of a file into its versions, unless it is
+ * identical to the content about to be uploaded.
+ */
+export async function archiveVersion(bucket: R2Bucket, path: string, newHash?: string): Promise<void> {
+  const current = await bucket.head(`${FILES_PREFIX}${path}`);
+  if (!current) return;
+
+  const hash = current.customMetadata?.sha256 ?? current.etag;
+  if (hash === newHash) return;
+
+  const object = await bucket.get(`${FILES_PREFIX}${path}`);
+  if (!object) return;
+
+  await bucket.put(`${versionPrefix(path)}${hash}`, object.body, {
+    httpMetadata: object.httpMetadata,
+    customMetadata: { ...object.customMetadata, archivedAt: new Date().toISOString() },
+  });
+  await pruneVersions(bucket, path);
+}
+
+/**
+ * Apply the retention policy to a file's versions.
+ * Returns the versions that were kept, newest first.
+ */
+export async function pruneVersions(bucket: R2Bucket, path: string): Promise<VersionEntry[]> {
+  const prefix = versionPrefix(path);
+  const versions: VersionEntry[] = [];
+
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix, cursor, include: ["customMetadata"] });
+    for (const object of listed.objects) {
+      const hash = object.key.slice(prefix.length);
+      // Versions of files inside a folder that shares this file's name
+      if (hash.includes("/")) continue;
+      versions.push({ hash, size: object.size, archivedAt: object.customMetadata?.archivedAt ?? "" });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  versions.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+
+  const cutoff = Date.now() - VERSION_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const kept = versions.filter(
+    (version, index) => index < VERSION_RETENTION_COUNT && !(Date.parse(version.archivedAt) < cutoff),
+  );
+  if (kept.length < versions.length) {
+    const keptHashes = new Set(kept.map((version) => version.hash));
+    await bucket.delete(
+      versions.filter((version) => !keptHashes.has(version.hash)).map((version) => `${prefix}${version.hash}`),
+    );
+  }
+
+  return kept;
+}